@@ -0,0 +1,92 @@
+import { z } from "zod";
+
+// Orders whose money we actually hold count towards revenue; refunds are
+// subtracted from the order they belong to
+export const REVENUE_PAYMENT_STATUSES = ["paid", "partially_refunded"];
+
+export const ANALYTICS_INTERVALS = ["day", "week", "month"] as const;
+export type AnalyticsInterval = typeof ANALYTICS_INTERVALS[number];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Longest range allowed for each bucket size, to keep responses small
+const maxRangeDays: Record<AnalyticsInterval, number> = {
+  day: 366,
+  week: 2 * 366,
+  month: 5 * 366
+};
+
+export const analyticsQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  interval: z.enum(ANALYTICS_INTERVALS).default("day"),
+  limit: z.coerce.number().int().min(1).max(50).default(10)
+}).transform(query => {
+  // Defaults to the 30 days up to now
+  const to = query.to ?? new Date();
+  const from = query.from ?? new Date(to.getTime() - 30 * DAY_MS);
+  return { ...query, from, to };
+}).refine(query => query.from < query.to, {
+  message: "from must be before to",
+  path: ["from"]
+}).refine(query => query.to.getTime() - query.from.getTime() <= maxRangeDays[query.interval] * DAY_MS, {
+  message: "Date range is too long for this interval",
+  path: ["interval"]
+});
+
+export type AnalyticsQuery = z.infer<typeof analyticsQuerySchema>;
+
+export function isRevenueOrder(order: { paymentStatus?: string | null; status: string }) {
+  return REVENUE_PAYMENT_STATUSES.includes(order.paymentStatus || "") && order.status !== "cancelled";
+}
+
+export interface SalesBucket {
+  // Start of the bucket as YYYY-MM-DD (UTC); weeks start on Monday
+  bucket: string;
+  revenue: number;
+  orderCount: number;
+  averageOrderValue: number;
+}
+
+function bucketStart(date: Date, interval: AnalyticsInterval) {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  if (interval === "week") {
+    start.setUTCDate(start.getUTCDate() - (start.getUTCDay() + 6) % 7);
+  } else if (interval === "month") {
+    start.setUTCDate(1);
+  }
+  return start;
+}
+
+function nextBucket(start: Date, interval: AnalyticsInterval) {
+  const next = new Date(start);
+  if (interval === "day") next.setUTCDate(next.getUTCDate() + 1);
+  if (interval === "week") next.setUTCDate(next.getUTCDate() + 7);
+  if (interval === "month") next.setUTCMonth(next.getUTCMonth() + 1);
+  return next;
+}
+
+// Every bucket in the range, so days without sales show as zero instead of
+// leaving gaps in the chart
+export function fillSalesSeries(
+  rows: { bucket: string; revenue: number; orderCount: number }[],
+  query: { from: Date; to: Date; interval: AnalyticsInterval }
+): SalesBucket[] {
+  const byBucket = new Map(rows.map(row => [row.bucket, row]));
+  const series: SalesBucket[] = [];
+
+  for (let start = bucketStart(query.from, query.interval); start < query.to; start = nextBucket(start, query.interval)) {
+    const bucket = start.toISOString().slice(0, 10);
+    const row = byBucket.get(bucket);
+    const revenue = row?.revenue ?? 0;
+    const orderCount = row?.orderCount ?? 0;
+    series.push({
+      bucket,
+      revenue,
+      orderCount,
+      averageOrderValue: orderCount > 0 ? Math.round(revenue / orderCount) : 0
+    });
+  }
+
+  return series;
+}
@@ -0,0 +1,116 @@
+import { and, desc, eq, gte, inArray, lt, ne, sql } from "drizzle-orm";
+import { orderItems, orders, products, users } from "@shared/schema";
+import { db } from "./db";
+import { refunds } from "./schemaExtensions";
+import { AnalyticsInterval, fillSalesSeries, REVENUE_PAYMENT_STATUSES } from "./analytics";
+import { SETTLED_REFUND_STATUSES } from "./refunds";
+
+export interface AnalyticsRange {
+  from: Date;
+  to: Date;
+}
+
+// Paid, uncancelled orders placed in the range
+const revenueOrders = (range: AnalyticsRange) => and(
+  inArray(orders.paymentStatus, REVENUE_PAYMENT_STATUSES),
+  ne(orders.status, "cancelled"),
+  gte(orders.createdAt, range.from),
+  lt(orders.createdAt, range.to)
+);
+
+// What the customer paid for an order, less the refunds sent back
+const orderRevenue = sql`${orders.totalAmount} - (
+  select coalesce(sum(${refunds.amount}), 0) from ${refunds}
+  where ${refunds.orderId} = ${orders.id} and ${inArray(refunds.status, SETTLED_REFUND_STATUSES)}
+)`;
+
+// What an item sold for, less its refund lines. Coupon discounts apply to the
+// whole order, so per-item figures don't add up to order revenue exactly.
+const itemRevenue = sql`${orderItems.price} * ${orderItems.quantity} - (
+  select coalesce(sum((line ->> 'amount')::int), 0)
+  from ${refunds}, jsonb_array_elements(${refunds.items}) as line
+  where ${refunds.orderId} = ${orderItems.orderId}
+    and ${inArray(refunds.status, SETTLED_REFUND_STATUSES)}
+    and (line ->> 'orderItemId')::int = ${orderItems.id}
+)`;
+
+const revenueSum = (revenue: typeof orderRevenue) => sql<number>`coalesce(sum(${revenue}), 0)::int`;
+const unitsSold = sql<number>`coalesce(sum(${orderItems.quantity} - ${orderItems.returnedQuantity}), 0)::int`;
+
+// Every figure is a single aggregate query; no orders are loaded into memory
+export class AnalyticsStorage {
+  async getSalesTotals(range: AnalyticsRange) {
+    const [totals] = await db
+      .select({ revenue: revenueSum(orderRevenue), orderCount: sql<number>`count(*)::int` })
+      .from(orders)
+      .where(revenueOrders(range));
+    return totals;
+  }
+
+  async getSalesTimeSeries(query: AnalyticsRange & { interval: AnalyticsInterval }) {
+    // The interval is one of ANALYTICS_INTERVALS, so it's safe to inline;
+    // grouping by a bound parameter isn't allowed
+    const bucket = sql<string>`to_char(date_trunc('${sql.raw(query.interval)}', ${orders.createdAt}), 'YYYY-MM-DD')`;
+
+    const rows = await db
+      .select({ bucket, revenue: revenueSum(orderRevenue), orderCount: sql<number>`count(*)::int` })
+      .from(orders)
+      .where(revenueOrders(query))
+      .groupBy(bucket)
+      .orderBy(bucket);
+    return fillSalesSeries(rows, query);
+  }
+
+  async getTopProducts(query: AnalyticsRange & { limit: number }) {
+    const revenue = revenueSum(itemRevenue);
+
+    return db
+      .select({
+        productId: orderItems.productId,
+        name: products.name,
+        unitsSold,
+        revenue
+      })
+      .from(orderItems)
+      .innerJoin(orders, eq(orders.id, orderItems.orderId))
+      .leftJoin(products, eq(products.id, orderItems.productId))
+      .where(revenueOrders(query))
+      .groupBy(orderItems.productId, products.name)
+      .orderBy(desc(revenue), orderItems.productId)
+      .limit(query.limit);
+  }
+
+  async getTopCategories(query: AnalyticsRange & { limit: number }) {
+    const revenue = revenueSum(itemRevenue);
+
+    return db
+      .select({ category: products.category, unitsSold, revenue })
+      .from(orderItems)
+      .innerJoin(orders, eq(orders.id, orderItems.orderId))
+      .innerJoin(products, eq(products.id, orderItems.productId))
+      .where(revenueOrders(query))
+      .groupBy(products.category)
+      .orderBy(desc(revenue), products.category)
+      .limit(query.limit);
+  }
+
+  async getSupplierRevenue(range: AnalyticsRange) {
+    const revenue = revenueSum(itemRevenue);
+
+    return db
+      .select({
+        supplierId: orderItems.supplierId,
+        supplierName: users.fullName,
+        unitsSold,
+        revenue
+      })
+      .from(orderItems)
+      .innerJoin(orders, eq(orders.id, orderItems.orderId))
+      .leftJoin(users, eq(users.id, orderItems.supplierId))
+      .where(revenueOrders(range))
+      .groupBy(orderItems.supplierId, users.fullName)
+      .orderBy(desc(revenue), orderItems.supplierId);
+  }
+}
+
+export const analyticsStorage = new AnalyticsStorage();
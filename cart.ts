@@ -0,0 +1,109 @@
+import crypto from "crypto";
+import { CartItem } from "@shared/schema";
+import { priceLine, summarizePricedLines, OrderPriceBreakdown, PricedOrderLine } from "./pricing";
+
+export const GUEST_CART_COOKIE = "guest_cart";
+export const GUEST_CART_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+export interface CartWarning {
+  productId: number;
+  variantId?: number | null;
+  message: string;
+}
+
+export interface PricedCart extends OrderPriceBreakdown {
+  warnings: CartWarning[];
+}
+
+const lineKey = (item: CartItem) =>
+  [item.productId, item.variantId ?? "", item.size ?? "", item.color ?? ""].join(":");
+
+// The same line for another quantity
+function withQuantity(line: PricedOrderLine, quantity: number): PricedOrderLine {
+  return {
+    ...line,
+    quantity,
+    lineSubtotal: line.unitPrice * quantity,
+    lineDiscount: (line.unitPrice - line.finalUnitPrice) * quantity,
+    lineTotal: line.finalUnitPrice * quantity
+  };
+}
+
+// Check cart lines against the catalog. Lines that can't be bought are dropped
+// and quantities above the available stock are lowered; both are reported as
+// warnings. Returns the cleaned items to store and the priced cart to show.
+// A variant can be named by its id or by its size and color, so lines are
+// combined after pricing has resolved their variant, and the combined
+// quantity is what's checked against stock.
+export async function priceCart(items: CartItem[]): Promise<{ items: CartItem[]; cart: PricedCart }> {
+  const warnings: CartWarning[] = [];
+  const resolved = new Map<string, { item: CartItem; line: PricedOrderLine; availableStock: number }>();
+
+  for (const item of items) {
+    const result = await priceLine(item);
+    if (result.issue) {
+      warnings.push({ productId: result.issue.productId, variantId: item.variantId, message: result.issue.reason });
+      continue;
+    }
+
+    const normalized: CartItem = {
+      ...item,
+      variantId: result.item.variantId ?? undefined,
+      size: result.item.size,
+      color: result.item.color
+    };
+    const key = lineKey(normalized);
+    const existing = resolved.get(key);
+    resolved.set(key, existing
+      ? { ...existing, line: withQuantity(existing.line, existing.line.quantity + result.item.quantity) }
+      : { item: normalized, line: result.item, availableStock: result.availableStock });
+  }
+
+  const validItems: CartItem[] = [];
+  const pricedLines: PricedOrderLine[] = [];
+  for (const { item, availableStock, line: pricedLine } of Array.from(resolved.values())) {
+    if (availableStock <= 0) {
+      warnings.push({ productId: item.productId, variantId: item.variantId, message: "Out of stock" });
+      continue;
+    }
+
+    let line = pricedLine;
+    if (line.quantity > availableStock) {
+      warnings.push({
+        productId: item.productId,
+        variantId: item.variantId,
+        message: `Only ${availableStock} left in stock; quantity reduced`
+      });
+      line = withQuantity(line, availableStock);
+    }
+
+    validItems.push({ ...item, quantity: line.quantity });
+    pricedLines.push(line);
+  }
+
+  return {
+    items: validItems,
+    cart: { ...summarizePricedLines(pricedLines), warnings }
+  };
+}
+
+export function getGuestCartId(cookieHeader: string | undefined): string | null {
+  if (!cookieHeader) {
+    return null;
+  }
+
+  for (const cookie of cookieHeader.split(";")) {
+    const [name, ...value] = cookie.trim().split("=");
+    if (name === GUEST_CART_COOKIE) {
+      const id = decodeURIComponent(value.join("="));
+      // Only accept ids we could have issued
+      return /^[0-9a-f-]{36}$/.test(id) ? id : null;
+    }
+  }
+
+  return null;
+}
+
+export function createGuestCartId() {
+  return crypto.randomUUID();
+}
@@ -0,0 +1,33 @@
+import { and, eq, gte } from "drizzle-orm";
+import { type CartItem } from "@shared/schema";
+import { db } from "./db";
+import { guestCarts } from "./schemaExtensions";
+import { GUEST_CART_MAX_AGE_MS } from "./cart";
+
+// A guest cart lasts as long as its cookie, counted from its last update
+const expiresBefore = () => new Date(Date.now() - GUEST_CART_MAX_AGE_MS);
+
+export class CartStorage {
+  async getGuestCart(guestCartId: string) {
+    const [cart] = await db
+      .select()
+      .from(guestCarts)
+      .where(and(eq(guestCarts.id, guestCartId), gte(guestCarts.updatedAt, expiresBefore())));
+    return cart;
+  }
+
+  async updateGuestCart(guestCartId: string, items: CartItem[]) {
+    const [cart] = await db
+      .insert(guestCarts)
+      .values({ id: guestCartId, items })
+      .onConflictDoUpdate({ target: guestCarts.id, set: { items, updatedAt: new Date() } })
+      .returning();
+    return cart;
+  }
+
+  async deleteGuestCart(guestCartId: string) {
+    await db.delete(guestCarts).where(eq(guestCarts.id, guestCartId));
+  }
+}
+
+export const cartStorage = new CartStorage();
@@ -0,0 +1,302 @@
+import { and, arrayOverlaps, asc, desc, eq, gt, gte, ilike, inArray, isNull, lte, or, sql, type SQL } from "drizzle-orm";
+import { products, type InsertProduct, type Product } from "@shared/schema";
+import { db } from "./db";
+import { replaceProductVariants, setProductStock } from "./inventoryStorage";
+import { queueNotifications } from "./notificationStorage";
+import { DbTransaction, productWaitlist } from "./schemaExtensions";
+import { ProductSearchQuery, ProductSearchResult } from "./productSearch";
+import { ProductVariantInput } from "./variants";
+import { StockMovementContext } from "./stock";
+
+export type ProductSearchFilters = Partial<ProductSearchQuery> & { isActive?: boolean };
+
+// Keyword searches match the words literally, not as LIKE patterns
+function likePattern(keyword: string) {
+  return `%${keyword.replace(/[\\%_]/g, character => `\\${character}`)}%`;
+}
+
+function searchConditions(filters: ProductSearchFilters) {
+  const conditions: (SQL | undefined)[] = [];
+
+  if (filters.isActive !== undefined) conditions.push(eq(products.isActive, filters.isActive));
+  if (filters.comingSoon !== undefined) conditions.push(eq(products.comingSoon, filters.comingSoon));
+  if (filters.category) conditions.push(eq(products.category, filters.category));
+  if (filters.supplierId) conditions.push(eq(products.supplierId, filters.supplierId));
+  if (filters.minPrice !== undefined) conditions.push(gte(products.price, filters.minPrice));
+  if (filters.maxPrice !== undefined) conditions.push(lte(products.price, filters.maxPrice));
+  if (filters.sizes?.length) conditions.push(arrayOverlaps(products.availableSizes, filters.sizes));
+  if (filters.colors?.length) conditions.push(arrayOverlaps(products.availableColors, filters.colors));
+  if (filters.inStock) conditions.push(gt(products.stock, 0));
+  if (filters.q) {
+    const pattern = likePattern(filters.q);
+    conditions.push(or(ilike(products.name, pattern), ilike(products.description, pattern)));
+  }
+
+  return and(...conditions);
+}
+
+function searchOrder(filters: ProductSearchFilters): SQL[] {
+  switch (filters.sort || (filters.q ? "relevance" : "newest")) {
+    case "price_asc":
+      return [asc(products.price), asc(products.id)];
+    case "price_desc":
+      return [desc(products.price), asc(products.id)];
+    case "rating":
+      // The stored aggregate, kept up to date as reviews change
+      return [sql`${products.ratingAverage} desc nulls last`, desc(products.ratingCount), asc(products.id)];
+    case "relevance":
+      // Name matches rank above description-only matches
+      return filters.q
+        ? [sql`case when ${products.name} ilike ${likePattern(filters.q)} then 0 else 1 end`, desc(products.createdAt), desc(products.id)]
+        : [desc(products.createdAt), desc(products.id)];
+    default:
+      return [desc(products.createdAt), desc(products.id)];
+  }
+}
+
+// Queue a launch notification for every waitlist entry of the product that
+// hasn't had one, and mark exactly those entries. The entries are locked, so
+// two transactions never notify the same customer; someone who joins while
+// this runs isn't marked and is picked up by notifyLaunchedWaitlists.
+async function notifyWaitlist(tx: DbTransaction, product: { id: number; name: string }) {
+  const entries = await tx
+    .select({ id: productWaitlist.id, customerId: productWaitlist.customerId })
+    .from(productWaitlist)
+    .where(and(eq(productWaitlist.productId, product.id), isNull(productWaitlist.notifiedAt)))
+    .for("update", { skipLocked: true });
+  if (entries.length === 0) {
+    return 0;
+  }
+
+  await queueNotifications(tx, entries.map(entry => ({
+    userId: entry.customerId,
+    type: "product_launched" as const,
+    data: { productId: product.id, productName: product.name }
+  })));
+  await tx
+    .update(productWaitlist)
+    .set({ notifiedAt: new Date() })
+    .where(inArray(productWaitlist.id, entries.map(entry => entry.id)));
+
+  return entries.length;
+}
+
+export class CatalogStorage {
+  // One page of matching products plus the totals and facet counts over every
+  // match. Each part is a single query; nothing loads the whole table.
+  async searchProducts(filters: ProductSearchFilters): Promise<ProductSearchResult<Product>> {
+    const page = filters.page || 1;
+    const pageSize = filters.pageSize || 24;
+    const where = searchConditions(filters);
+
+    const listValues = (column: typeof products.availableSizes) => {
+      const values = db
+        .select({ value: sql<string>`unnest(${column})`.as("value") })
+        .from(products)
+        .where(where)
+        .as("values");
+      return db
+        .select({ value: values.value, count: sql<number>`count(*)::int` })
+        .from(values)
+        .groupBy(values.value)
+        .orderBy(desc(sql`count(*)`), asc(values.value));
+    };
+
+    const [items, [totals], categories, sizes, colors] = await Promise.all([
+      db
+        .select()
+        .from(products)
+        .where(where)
+        .orderBy(...searchOrder(filters))
+        .limit(pageSize)
+        .offset((page - 1) * pageSize),
+      db
+        .select({
+          total: sql<number>`count(*)::int`,
+          minPrice: sql<number | null>`min(${products.price})`,
+          maxPrice: sql<number | null>`max(${products.price})`,
+          inStock: sql<number>`(count(*) filter (where ${products.stock} > 0))::int`
+        })
+        .from(products)
+        .where(where),
+      db
+        .select({ value: products.category, count: sql<number>`count(*)::int` })
+        .from(products)
+        .where(where)
+        .groupBy(products.category)
+        .orderBy(desc(sql`count(*)`), asc(products.category)),
+      listValues(products.availableSizes),
+      listValues(products.availableColors)
+    ]);
+
+    return {
+      items,
+      total: totals.total,
+      page,
+      pageSize,
+      totalPages: Math.ceil(totals.total / pageSize),
+      facets: {
+        categories,
+        sizes,
+        colors,
+        price: { min: totals.minPrice, max: totals.maxPrice },
+        inStock: totals.inStock
+      }
+    };
+  }
+
+  async getProductsDueForLaunch(now: Date) {
+    return db
+      .select()
+      .from(products)
+      .where(and(eq(products.comingSoon, true), lte(products.releaseDate, now)))
+      .orderBy(asc(products.releaseDate), asc(products.id));
+  }
+
+  // Activate a coming-soon product and queue its waitlist's notifications in
+  // one transaction. Only a product that is still coming soon is flipped, so
+  // when several instances run the scheduler only one of them launches it.
+  async launchProduct(productId: number) {
+    return db.transaction(async tx => {
+      const [product] = await tx
+        .update(products)
+        .set({ comingSoon: false, isActive: true })
+        .where(and(eq(products.id, productId), eq(products.comingSoon, true)))
+        .returning();
+      if (!product) {
+        return null;
+      }
+
+      await notifyWaitlist(tx, product);
+      return product;
+    });
+  }
+
+  // Notify waitlist entries of products that have already launched, such as
+  // customers who joined while the launch was committing
+  async notifyLaunchedWaitlists() {
+    const pending = await db
+      .selectDistinct({ id: products.id, name: products.name })
+      .from(productWaitlist)
+      .innerJoin(products, eq(products.id, productWaitlist.productId))
+      .where(and(isNull(productWaitlist.notifiedAt), eq(products.comingSoon, false)));
+
+    let notifiedCount = 0;
+    for (const product of pending) {
+      notifiedCount += await db.transaction(tx => notifyWaitlist(tx, product));
+    }
+    return notifiedCount;
+  }
+
+  // Joining twice keeps the original entry
+  async addToWaitlist(productId: number, customerId: number) {
+    const [created] = await db
+      .insert(productWaitlist)
+      .values({ productId, customerId })
+      .onConflictDoNothing()
+      .returning();
+    if (created) {
+      return { entry: created, created: true };
+    }
+
+    const [entry] = await db
+      .select()
+      .from(productWaitlist)
+      .where(and(eq(productWaitlist.productId, productId), eq(productWaitlist.customerId, customerId)));
+    return { entry, created: false };
+  }
+
+  async removeFromWaitlist(productId: number, customerId: number) {
+    const removed = await db
+      .delete(productWaitlist)
+      .where(and(eq(productWaitlist.productId, productId), eq(productWaitlist.customerId, customerId)))
+      .returning({ id: productWaitlist.id });
+    return removed.length > 0;
+  }
+
+  // Create a product with its opening stock, or its variants, in one
+  // transaction. The opening stock is recorded as the first movement.
+  async createProduct(productData: InsertProduct, variants: ProductVariantInput[], openingStock: StockMovementContext) {
+    return db.transaction(async tx => {
+      const [created] = await tx.insert(products).values({ ...productData, stock: 0 }).returning();
+      if (variants.length > 0) {
+        await replaceProductVariants(tx, created.id, variants, openingStock);
+      } else {
+        await setProductStock(tx, created.id, productData.stock ?? 0, openingStock);
+      }
+
+      const [product] = await tx.select().from(products).where(eq(products.id, created.id));
+      return product;
+    });
+  }
+
+  async getProductBySku(supplierId: number, sku: string) {
+    const [product] = await db
+      .select()
+      .from(products)
+      .where(and(eq(products.supplierId, supplierId), eq(products.sku, sku)));
+    return product;
+  }
+
+  // Create or update every imported row in one transaction, so one failing
+  // row leaves the whole catalog untouched. Stock is set through the same
+  // path as manual edits and recorded as movements.
+  async importProducts(
+    rows: { productId: number | null; data: Partial<InsertProduct> }[],
+    movement: StockMovementContext
+  ) {
+    return db.transaction(async tx => {
+      const imported: Product[] = [];
+      for (const { productId, data } of rows) {
+        const { stock, ...updates } = data;
+
+        let id = productId;
+        if (id === null) {
+          const [created] = await tx
+            .insert(products)
+            .values({ ...(updates as InsertProduct), stock: 0 })
+            .returning({ id: products.id });
+          id = created.id;
+        } else if (Object.keys(updates).length > 0) {
+          await tx.update(products).set(updates).where(eq(products.id, id));
+        }
+
+        if (stock !== undefined || productId === null) {
+          await setProductStock(tx, id, stock ?? 0, movement);
+        }
+
+        const [product] = await tx.select().from(products).where(eq(products.id, id));
+        imported.push(product);
+      }
+      return imported;
+    });
+  }
+
+  // Update a product and, when given, replace its variants or set its stock
+  // in one transaction, so a failed stock write leaves the product unchanged.
+  // Stock changes are recorded as movements of the given kind.
+  async updateProduct(
+    productId: number,
+    updates: Partial<Omit<InsertProduct, "stock">>,
+    variants: ProductVariantInput[] | null,
+    stock: number | null,
+    movement: StockMovementContext
+  ) {
+    return db.transaction(async tx => {
+      if (Object.keys(updates).length > 0) {
+        await tx.update(products).set(updates).where(eq(products.id, productId));
+      }
+      if (variants) {
+        await replaceProductVariants(tx, productId, variants, movement);
+      }
+      if (stock !== null) {
+        await setProductStock(tx, productId, stock, movement);
+      }
+
+      const [product] = await tx.select().from(products).where(eq(products.id, productId));
+      return product;
+    });
+  }
+}
+
+export const catalogStorage = new CatalogStorage();
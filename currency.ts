@@ -0,0 +1,18 @@
+// All money in the store is kept as integer minor units of the store currency
+// (pesewas for GHS), so GH₵49.99 is stored and sent around as 4999.
+export const STORE_CURRENCY = (process.env.STORE_CURRENCY || "GHS").toUpperCase();
+
+// Paystack mobile money provider codes for the payment methods we offer in Ghana
+const mobileMoneyProviders: Record<string, string> = {
+  mtn_mobile: "mtn",
+  telecel: "vod",
+  airteltigo: "atl"
+};
+
+export function getMobileMoneyProvider(paymentMethod: string): string | undefined {
+  return mobileMoneyProviders[paymentMethod];
+}
+
+export function isMinorUnitAmount(amount: unknown): amount is number {
+  return typeof amount === "number" && Number.isInteger(amount) && amount >= 0;
+}
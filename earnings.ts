@@ -0,0 +1,68 @@
+import { z } from "zod";
+
+// Platform commission taken from each supplier sale, in percent
+export const PLATFORM_COMMISSION_PERCENT = Number(process.env.PLATFORM_COMMISSION_PERCENT ?? 10);
+
+// Orders that were paid at some point; later refunds appear as their own lines
+export const EARNING_PAYMENT_STATUSES = ["paid", "partially_refunded", "refunded"];
+
+export interface EarningLine {
+  orderId: number;
+  orderItemId: number;
+  productId: number;
+  quantity: number;
+  amount: number;
+  date: Date;
+}
+
+export interface EarningsSummary {
+  grossSales: number;
+  refunds: number;
+  commission: number;
+  netEarnings: number;
+  payouts: number;
+  // What is still owed to the supplier for the period
+  balance: number;
+}
+
+export interface EarningsTotals {
+  grossSales: number;
+  refunds: number;
+  payouts: number;
+}
+
+// Suppliers earn on the item prices they set. Coupon discounts are funded by
+// the platform, so they don't reduce supplier earnings. Commission is charged
+// on sales net of refunds. All amounts are integer minor units.
+export function summarizeEarnings(
+  totals: EarningsTotals,
+  commissionPercent = PLATFORM_COMMISSION_PERCENT
+): EarningsSummary {
+  const commission = Math.round((totals.grossSales - totals.refunds) * commissionPercent / 100);
+  const netEarnings = totals.grossSales - totals.refunds - commission;
+
+  return {
+    grossSales: totals.grossSales,
+    refunds: totals.refunds,
+    commission,
+    netEarnings,
+    payouts: totals.payouts,
+    balance: netEarnings - totals.payouts
+  };
+}
+
+export const earningsQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  supplierId: z.coerce.number().int().positive().optional()
+}).refine(query => !query.from || !query.to || query.from < query.to, {
+  message: "from must be before to",
+  path: ["from"]
+});
+
+export const payoutInputSchema = z.object({
+  supplierId: z.number().int().positive(),
+  amount: z.number().int().positive(),
+  reference: z.string().trim().max(100).optional(),
+  note: z.string().max(500).optional()
+});
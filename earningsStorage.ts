@@ -0,0 +1,157 @@
+import { and, asc, desc, eq, gte, inArray, lt, ne, sql, type AnyColumn } from "drizzle-orm";
+import { orderItems, orders } from "@shared/schema";
+import { db } from "./db";
+import { DbTransaction, InsertPayout, orderFulfillments, payouts, refunds } from "./schemaExtensions";
+import { EARNING_PAYMENT_STATUSES, EarningLine, EarningsTotals, summarizeEarnings } from "./earnings";
+import { SETTLED_REFUND_STATUSES } from "./refunds";
+
+export interface EarningsRange {
+  from?: Date;
+  to?: Date;
+}
+
+function inRange(column: AnyColumn, range: EarningsRange) {
+  return and(
+    range.from ? gte(column, range.from) : undefined,
+    range.to ? lt(column, range.to) : undefined
+  );
+}
+
+// One row per line of each refund
+const refundLines = db
+  .select({
+    orderId: refunds.orderId,
+    status: refunds.status,
+    createdAt: refunds.createdAt,
+    line: sql<{ orderItemId: number; quantity: number; amount: number }>`jsonb_array_elements(${refunds.items})`.as("line")
+  })
+  .from(refunds)
+  .as("refund_lines");
+
+// The supplier's items on paid orders placed in the range. Items of a
+// cancelled fulfillment group were never sold, so they don't count.
+function supplierSales<T extends Record<string, unknown>>(
+  executor: DbTransaction | typeof db,
+  supplierId: number,
+  range: EarningsRange,
+  fields: T
+) {
+  return executor
+    .select(fields)
+    .from(orderItems)
+    .innerJoin(orders, eq(orders.id, orderItems.orderId))
+    .innerJoin(orderFulfillments, and(
+      eq(orderFulfillments.orderId, orderItems.orderId),
+      eq(orderFulfillments.supplierId, orderItems.supplierId)
+    ))
+    .where(and(
+      eq(orderItems.supplierId, supplierId),
+      inArray(orders.paymentStatus, EARNING_PAYMENT_STATUSES),
+      ne(orderFulfillments.status, "cancelled"),
+      inRange(orders.createdAt, range)
+    ));
+}
+
+// Settled refund lines for the supplier's items, refunded in the range.
+// Refunds of items in a cancelled fulfillment group don't count either.
+function supplierRefunds<T extends Record<string, unknown>>(
+  executor: DbTransaction | typeof db,
+  supplierId: number,
+  range: EarningsRange,
+  fields: T
+) {
+  return executor
+    .select(fields)
+    .from(refundLines)
+    .innerJoin(orderItems, eq(orderItems.id, sql`(${refundLines.line} ->> 'orderItemId')::int`))
+    .innerJoin(orderFulfillments, and(
+      eq(orderFulfillments.orderId, orderItems.orderId),
+      eq(orderFulfillments.supplierId, orderItems.supplierId)
+    ))
+    .where(and(
+      eq(orderItems.supplierId, supplierId),
+      inArray(refundLines.status, SETTLED_REFUND_STATUSES),
+      ne(orderFulfillments.status, "cancelled"),
+      inRange(refundLines.createdAt, range)
+    ));
+}
+
+const saleAmount = sql<number>`${orderItems.price} * ${orderItems.quantity}`;
+const refundAmount = sql<number>`(${refundLines.line} ->> 'amount')::int`;
+
+// Sales by order date, refunds by refund date and payouts by payout date,
+// each summed in one query
+async function earningsTotals(executor: DbTransaction | typeof db, supplierId: number, range: EarningsRange): Promise<EarningsTotals> {
+  const [sales] = await supplierSales(executor, supplierId, range, {
+    total: sql<number>`coalesce(sum(${saleAmount}), 0)::int`
+  });
+  const [refunded] = await supplierRefunds(executor, supplierId, range, {
+    total: sql<number>`coalesce(sum(${refundAmount}), 0)::int`
+  });
+  const [paidOut] = await executor
+    .select({ total: sql<number>`coalesce(sum(${payouts.amount}), 0)::int` })
+    .from(payouts)
+    .where(and(eq(payouts.supplierId, supplierId), inRange(payouts.createdAt, range)));
+
+  return { grossSales: sales.total, refunds: refunded.total, payouts: paidOut.total };
+}
+
+export class EarningsStorage {
+  async getSupplierEarningsTotals(supplierId: number, range: EarningsRange) {
+    return earningsTotals(db, supplierId, range);
+  }
+
+  async getSupplierSales(supplierId: number, range: EarningsRange): Promise<EarningLine[]> {
+    return supplierSales(db, supplierId, range, {
+      orderId: orderItems.orderId,
+      orderItemId: orderItems.id,
+      productId: orderItems.productId,
+      quantity: orderItems.quantity,
+      amount: saleAmount,
+      date: orders.createdAt
+    })
+      .orderBy(asc(orders.createdAt), asc(orderItems.id));
+  }
+
+  async getSupplierRefunds(supplierId: number, range: EarningsRange): Promise<EarningLine[]> {
+    return supplierRefunds(db, supplierId, range, {
+      orderId: orderItems.orderId,
+      orderItemId: orderItems.id,
+      productId: orderItems.productId,
+      quantity: sql<number>`(${refundLines.line} ->> 'quantity')::int`,
+      amount: refundAmount,
+      date: refundLines.createdAt
+    })
+      .orderBy(asc(refundLines.createdAt), asc(orderItems.id));
+  }
+
+  async getPayouts(filters: EarningsRange & { supplierId?: number }) {
+    return db
+      .select()
+      .from(payouts)
+      .where(and(
+        filters.supplierId ? eq(payouts.supplierId, filters.supplierId) : undefined,
+        inRange(payouts.createdAt, filters)
+      ))
+      .orderBy(desc(payouts.createdAt), desc(payouts.id));
+  }
+
+  // Record a payout if the supplier is owed at least its amount. Payouts to
+  // one supplier are serialized, so two at once can't both spend the same
+  // balance. Returns a null payout and the balance when it's too large.
+  async createPayout(payout: InsertPayout) {
+    return db.transaction(async tx => {
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext('payouts'), ${payout.supplierId})`);
+
+      const { balance } = summarizeEarnings(await earningsTotals(tx, payout.supplierId, {}));
+      if (payout.amount > balance) {
+        return { payout: null, balanceDue: balance };
+      }
+
+      const [created] = await tx.insert(payouts).values(payout).returning();
+      return { payout: created, balanceDue: balance - created.amount };
+    });
+  }
+}
+
+export const earningsStorage = new EarningsStorage();
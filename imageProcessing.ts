@@ -0,0 +1,120 @@
+import sharp from "sharp";
+import { MediaStorage, contentTypeForKey } from "./mediaStorage";
+
+export type SniffedImageType = "jpeg" | "png" | "gif" | "webp" | "avif";
+
+export const IMAGE_RENDITIONS = {
+  thumbnail: 200,
+  medium: 600,
+  large: 1200
+} as const;
+
+export type ImageRenditionName = keyof typeof IMAGE_RENDITIONS;
+export const IMAGE_OUTPUT_FORMATS = ["webp", "avif"] as const;
+export type ImageOutputFormat = typeof IMAGE_OUTPUT_FORMATS[number];
+
+export interface ImageRendition {
+  width: number;
+  height: number;
+  // Total size of the encoded files
+  bytes: number;
+  // Media storage keys for each output format
+  files: Record<ImageOutputFormat, string>;
+}
+
+export class ImageProcessingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImageProcessingError";
+  }
+}
+
+// Identify an image from its leading bytes rather than the client-declared
+// mimetype. Anything not listed (SVG, HTML, PDF...) returns null.
+export function sniffImageType(buffer: Buffer): SniffedImageType | null {
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return "jpeg";
+  }
+
+  if (buffer.length >= 8 && buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return "png";
+  }
+
+  if (buffer.length >= 6 && ["GIF87a", "GIF89a"].includes(buffer.toString("ascii", 0, 6))) {
+    return "gif";
+  }
+
+  if (buffer.length >= 12 && buffer.toString("ascii", 0, 4) === "RIFF" && buffer.toString("ascii", 8, 12) === "WEBP") {
+    return "webp";
+  }
+
+  if (buffer.length >= 12 && buffer.toString("ascii", 4, 8) === "ftyp"
+    && ["avif", "avis"].includes(buffer.toString("ascii", 8, 12))) {
+    return "avif";
+  }
+
+  return null;
+}
+
+// Produce resized WebP and AVIF renditions of an uploaded image. sharp drops
+// EXIF (including GPS) and other metadata unless asked to keep it, so the
+// renditions carry none; orientation is applied to the pixels first.
+export async function processProductImage(
+  buffer: Buffer,
+  keyPrefix: string,
+  mediaStorage: MediaStorage
+): Promise<Record<ImageRenditionName, ImageRendition>> {
+  if (!sniffImageType(buffer)) {
+    throw new ImageProcessingError("Unsupported image format. Upload a JPEG, PNG, GIF, WebP or AVIF image");
+  }
+
+  const unreadable = () => new ImageProcessingError("Image file is corrupt or unreadable");
+
+  let source: sharp.Sharp;
+  try {
+    source = sharp(buffer, { failOn: "error", limitInputPixels: 40_000_000 }).rotate();
+    await source.metadata();
+  } catch (error) {
+    throw unreadable();
+  }
+
+  // A truncated body can still pass the header and metadata checks and only
+  // fail while decoding. The renditions stored before a failure are deleted.
+  const storedKeys: string[] = [];
+  try {
+    const renditions = {} as Record<ImageRenditionName, ImageRendition>;
+    for (const [name, width] of Object.entries(IMAGE_RENDITIONS) as [ImageRenditionName, number][]) {
+      const resized = source.clone().resize({ width, height: width, fit: "inside", withoutEnlargement: true });
+      const files = {} as Record<ImageOutputFormat, string>;
+      let info: sharp.OutputInfo | null = null;
+      let bytes = 0;
+
+      for (const format of IMAGE_OUTPUT_FORMATS) {
+        const key = `${keyPrefix}-${name}.${format}`;
+        let output: { data: Buffer; info: sharp.OutputInfo };
+        try {
+          output = await resized.clone()
+            .toFormat(format, { quality: format === "avif" ? 50 : 80 })
+            .toBuffer({ resolveWithObject: true });
+        } catch (error) {
+          throw unreadable();
+        }
+
+        await mediaStorage.put(key, output.data, contentTypeForKey(key));
+        storedKeys.push(key);
+        files[format] = key;
+        info = output.info;
+        bytes += output.info.size;
+      }
+
+      renditions[name] = { width: info!.width, height: info!.height, bytes, files };
+    }
+
+    return renditions;
+  } catch (error) {
+    await Promise.all(storedKeys.map(key => mediaStorage.delete(key).catch(deleteError => {
+      console.error(`Error deleting rendition ${key}:`, deleteError);
+    })));
+    throw error;
+  }
+}
@@ -0,0 +1,468 @@
+import { and, asc, desc, eq, getTableColumns, gte, inArray, isNull, lt, notInArray, sql } from "drizzle-orm";
+import { products, inventory } from "@shared/schema";
+import { db } from "./db";
+import { DbTransaction, lowStockAlerts, productVariants, stockMovements } from "./schemaExtensions";
+import {
+  InsufficientStockError,
+  isLowStock,
+  LOW_STOCK_ALERT_STATUSES,
+  StockMovementContext,
+  StockMovementType,
+  StockShortage
+} from "./stock";
+import { ProductVariantInput } from "./variants";
+
+export interface StockLine {
+  productId: number;
+  variantId?: number | null;
+  quantity: number;
+}
+
+export interface StockMovementsQuery {
+  type?: StockMovementType;
+  variantId?: number;
+  before?: number;
+  limit: number;
+}
+
+export interface LowStockAlertFilters {
+  status: typeof LOW_STOCK_ALERT_STATUSES[number];
+  supplierId?: number;
+  productIds?: number[];
+}
+
+// Quantities per product (or per variant), so a product ordered on several
+// lines is checked against its stock once
+function totalByKey(lines: StockLine[], key: (line: StockLine) => number | null | undefined) {
+  const totals = new Map<number, number>();
+  for (const line of lines) {
+    const id = key(line);
+    if (id != null) {
+      totals.set(id, (totals.get(id) || 0) + line.quantity);
+    }
+  }
+  // Rows are always locked in id order, so two orders over the same products
+  // can't deadlock each other
+  return Array.from(totals).sort(([a], [b]) => a - b);
+}
+
+async function recordMovement(
+  tx: DbTransaction,
+  movement: StockMovementContext,
+  change: { productId: number; variantId?: number | null; delta: number; stockAfter: number }
+) {
+  if (change.delta === 0) {
+    return;
+  }
+
+  await tx.insert(stockMovements).values({
+    productId: change.productId,
+    variantId: change.variantId ?? null,
+    type: movement.type,
+    delta: change.delta,
+    stockAfter: change.stockAfter,
+    orderId: movement.orderId ?? null,
+    actorId: movement.actorId,
+    actorRole: movement.actorRole,
+    note: movement.note ?? null
+  });
+}
+
+// Open the product's low-stock alert while its stock is at or below the
+// reorder threshold, and resolve it once stock is back above
+async function syncLowStockAlert(
+  tx: DbTransaction,
+  product: { id: number; supplierId: number; stock: number },
+  reorderThreshold: number | null
+) {
+  const openAlert = and(eq(lowStockAlerts.productId, product.id), eq(lowStockAlerts.status, "open"));
+
+  if (reorderThreshold === null || !isLowStock(product.stock, reorderThreshold)) {
+    await tx
+      .update(lowStockAlerts)
+      .set({ status: "resolved", stock: product.stock, resolvedAt: new Date() })
+      .where(openAlert);
+    return;
+  }
+
+  const [alert] = await tx
+    .update(lowStockAlerts)
+    .set({ stock: product.stock, reorderThreshold })
+    .where(openAlert)
+    .returning({ id: lowStockAlerts.id });
+  if (!alert) {
+    // The unique index on open alerts keeps a concurrent insert from adding a second one
+    await tx
+      .insert(lowStockAlerts)
+      .values({ productId: product.id, supplierId: product.supplierId, stock: product.stock, reorderThreshold })
+      .onConflictDoNothing();
+  }
+}
+
+// The supplier's inventory row mirrors the product's stock and holds its
+// reorder threshold. It's created on the product's first stock change.
+async function syncInventory(tx: DbTransaction, product: { id: number; supplierId: number; stock: number }) {
+  let [row] = await tx
+    .update(inventory)
+    .set({ stock: product.stock })
+    .where(and(eq(inventory.productId, product.id), eq(inventory.supplierId, product.supplierId)))
+    .returning();
+  if (!row) {
+    [row] = await tx
+      .insert(inventory)
+      .values({ productId: product.id, supplierId: product.supplierId, stock: product.stock })
+      .returning();
+  }
+
+  await syncLowStockAlert(tx, product, row.reorderThreshold ?? null);
+  return row;
+}
+
+// Lock the products' rows in id order. Every stock change locks its products
+// before any of their variants, so a checkout and a product edit can't each
+// hold a lock the other is waiting for.
+async function lockProducts(tx: DbTransaction, productIds: number[]) {
+  if (productIds.length > 0) {
+    await tx
+      .select({ id: products.id })
+      .from(products)
+      .where(inArray(products.id, productIds))
+      .orderBy(asc(products.id))
+      .for("update");
+  }
+}
+
+// A product sold in variants is stocked as the sum of its variants
+async function syncProductStockFromVariants(tx: DbTransaction, productId: number) {
+  const [product] = await tx
+    .update(products)
+    .set({
+      stock: sql`(select coalesce(sum(${productVariants.stock}), 0) from ${productVariants} where ${productVariants.productId} = ${productId})`
+    })
+    .where(eq(products.id, productId))
+    .returning({ id: products.id, supplierId: products.supplierId, stock: products.stock });
+
+  if (product) {
+    await syncInventory(tx, product);
+  }
+  return product;
+}
+
+// Take the lines out of stock inside the caller's transaction. Each decrement
+// only applies while enough stock is left, and the row stays locked until the
+// transaction ends, so concurrent orders can't both take the last unit.
+// Variant lines come out of the variant and the product total. Each variant,
+// and each product ordered without one, gets a movement. When any line is
+// short, every short line is reported and the caller's transaction is rolled
+// back by the thrown error.
+export async function reserveStock(tx: DbTransaction, lines: StockLine[], movement: StockMovementContext) {
+  const shortages: StockShortage[] = [];
+  const productQuantities = new Map(totalByKey(lines.filter(line => line.variantId == null), line => line.productId));
+
+  // Products are locked first, then variants and product totals are taken,
+  // each in id order
+  await lockProducts(tx, totalByKey(lines, line => line.productId).map(([productId]) => productId));
+  for (const [variantId, quantity] of totalByKey(lines, line => line.variantId)) {
+    const [variant] = await tx
+      .update(productVariants)
+      .set({ stock: sql`${productVariants.stock} - ${quantity}` })
+      .where(and(eq(productVariants.id, variantId), gte(productVariants.stock, quantity)))
+      .returning({ productId: productVariants.productId, stock: productVariants.stock });
+
+    if (variant) {
+      await recordMovement(tx, movement, { productId: variant.productId, variantId, delta: -quantity, stockAfter: variant.stock });
+    } else {
+      const [current] = await tx
+        .select({ productId: productVariants.productId, stock: productVariants.stock })
+        .from(productVariants)
+        .where(eq(productVariants.id, variantId));
+      const productId = current?.productId ?? lines.find(line => line.variantId === variantId)!.productId;
+      shortages.push({ productId, variantId, requested: quantity, available: current?.stock ?? 0 });
+    }
+  }
+
+  for (const [productId, quantity] of totalByKey(lines, line => line.productId)) {
+    const [product] = await tx
+      .update(products)
+      .set({ stock: sql`${products.stock} - ${quantity}` })
+      .where(and(eq(products.id, productId), gte(products.stock, quantity)))
+      .returning({ id: products.id, supplierId: products.supplierId, stock: products.stock });
+
+    if (product) {
+      await recordMovement(tx, movement, {
+        productId,
+        delta: -(productQuantities.get(productId) || 0),
+        stockAfter: product.stock
+      });
+      await syncInventory(tx, product);
+      continue;
+    }
+
+    // A short variant already explains a short product total
+    if (shortages.some(shortage => shortage.productId === productId)) {
+      continue;
+    }
+
+    const [current] = await tx
+      .select({ stock: products.stock })
+      .from(products)
+      .where(eq(products.id, productId));
+    shortages.push({ productId, requested: quantity, available: current?.stock ?? 0 });
+  }
+
+  if (shortages.length > 0) {
+    throw new InsufficientStockError(shortages);
+  }
+}
+
+// Put the lines back in stock inside the caller's transaction, recording
+// movements like reserveStock
+export async function returnStock(tx: DbTransaction, lines: StockLine[], movement: StockMovementContext) {
+  const returned = lines.filter(line => line.quantity > 0);
+  const productQuantities = new Map(totalByKey(returned.filter(line => line.variantId == null), line => line.productId));
+
+  await lockProducts(tx, totalByKey(returned, line => line.productId).map(([productId]) => productId));
+  for (const [variantId, quantity] of totalByKey(returned, line => line.variantId)) {
+    // A variant removed since the order has nothing to return to; the
+    // product total below still gets the units back
+    const [variant] = await tx
+      .update(productVariants)
+      .set({ stock: sql`${productVariants.stock} + ${quantity}` })
+      .where(eq(productVariants.id, variantId))
+      .returning({ productId: productVariants.productId, stock: productVariants.stock });
+    if (variant) {
+      await recordMovement(tx, movement, { productId: variant.productId, variantId, delta: quantity, stockAfter: variant.stock });
+    }
+  }
+
+  for (const [productId, quantity] of totalByKey(returned, line => line.productId)) {
+    const [product] = await tx
+      .update(products)
+      .set({ stock: sql`${products.stock} + ${quantity}` })
+      .where(eq(products.id, productId))
+      .returning({ id: products.id, supplierId: products.supplierId, stock: products.stock });
+
+    // A product deleted since the order has nothing to return to
+    if (product) {
+      await recordMovement(tx, movement, {
+        productId,
+        delta: productQuantities.get(productId) || 0,
+        stockAfter: product.stock
+      });
+      await syncInventory(tx, product);
+    }
+  }
+}
+
+// Replace a product's variants inside the caller's transaction. Variants are
+// matched by size and color, so a kept variant keeps its id (which order
+// items refer to). Stock changes are recorded per variant, and the product's
+// stock becomes the sum of the variants.
+export async function replaceProductVariants(
+  tx: DbTransaction,
+  productId: number,
+  variants: ProductVariantInput[],
+  movement: StockMovementContext
+) {
+  // Locks the product so concurrent replacements don't interleave
+  await lockProducts(tx, [productId]);
+  const existing = await tx
+    .select()
+    .from(productVariants)
+    .where(eq(productVariants.productId, productId))
+    .for("update");
+
+  const keptIds: number[] = [];
+  for (const variant of variants) {
+    const previous = existing.find(entry => entry.size === variant.size && entry.color === variant.color);
+    const [saved] = await tx
+      .insert(productVariants)
+      .values({ ...variant, price: variant.price ?? null, productId })
+      .onConflictDoUpdate({
+        target: [productVariants.productId, productVariants.size, productVariants.color],
+        set: { sku: variant.sku, price: variant.price ?? null, stock: variant.stock }
+      })
+      .returning({ id: productVariants.id });
+    keptIds.push(saved.id);
+
+    await recordMovement(tx, movement, {
+      productId,
+      variantId: saved.id,
+      delta: variant.stock - (previous?.stock ?? 0),
+      stockAfter: variant.stock
+    });
+  }
+
+  for (const removed of existing.filter(entry => !keptIds.includes(entry.id))) {
+    await recordMovement(tx, movement, { productId, variantId: removed.id, delta: -removed.stock, stockAfter: 0 });
+  }
+  await tx
+    .delete(productVariants)
+    .where(keptIds.length > 0
+      ? and(eq(productVariants.productId, productId), notInArray(productVariants.id, keptIds))
+      : eq(productVariants.productId, productId));
+
+  if (variants.length > 0) {
+    await syncProductStockFromVariants(tx, productId);
+  }
+}
+
+// Set a product's stock inside the caller's transaction: the product, the
+// supplier's inventory row and the movement change together. Returns the
+// inventory row, or undefined when the product doesn't exist.
+export async function setProductStock(tx: DbTransaction, productId: number, stock: number, movement: StockMovementContext) {
+  const [current] = await tx
+    .select({ stock: products.stock })
+    .from(products)
+    .where(eq(products.id, productId))
+    .for("update");
+  if (!current) {
+    return undefined;
+  }
+
+  const [product] = await tx
+    .update(products)
+    .set({ stock })
+    .where(eq(products.id, productId))
+    .returning({ id: products.id, supplierId: products.supplierId, stock: products.stock });
+  await recordMovement(tx, movement, { productId, delta: stock - current.stock, stockAfter: stock });
+  return syncInventory(tx, product);
+}
+
+export class InventoryStorage {
+  async getProductVariants(productId: number) {
+    return db
+      .select()
+      .from(productVariants)
+      .where(eq(productVariants.productId, productId))
+      .orderBy(asc(productVariants.id));
+  }
+
+  async setProductVariants(productId: number, variants: ProductVariantInput[], movement: StockMovementContext) {
+    return db.transaction(async tx => {
+      await replaceProductVariants(tx, productId, variants, movement);
+      return tx
+        .select()
+        .from(productVariants)
+        .where(eq(productVariants.productId, productId))
+        .orderBy(asc(productVariants.id));
+    });
+  }
+
+  // Set the stock of a product sold without variants
+  async setStock(productId: number, stock: number, movement: StockMovementContext) {
+    return db.transaction(tx => setProductStock(tx, productId, stock, movement));
+  }
+
+  // Set the stock of one variant; the product total and the supplier's
+  // inventory row follow in the same transaction
+  async setVariantStock(productId: number, variantId: number, stock: number, movement: StockMovementContext) {
+    return db.transaction(async tx => {
+      await lockProducts(tx, [productId]);
+      const [previous] = await tx
+        .select({ stock: productVariants.stock })
+        .from(productVariants)
+        .where(and(eq(productVariants.id, variantId), eq(productVariants.productId, productId)))
+        .for("update");
+      if (!previous) {
+        return undefined;
+      }
+
+      await tx
+        .update(productVariants)
+        .set({ stock })
+        .where(eq(productVariants.id, variantId));
+      await recordMovement(tx, movement, { productId, variantId, delta: stock - previous.stock, stockAfter: stock });
+      await syncProductStockFromVariants(tx, productId);
+
+      const [row] = await tx.select().from(inventory).where(eq(inventory.productId, productId));
+      return row;
+    });
+  }
+
+  // Newest first; before pages back from the last id seen
+  async getStockMovements(productId: number, query: StockMovementsQuery) {
+    return db
+      .select()
+      .from(stockMovements)
+      .where(and(
+        eq(stockMovements.productId, productId),
+        query.type ? eq(stockMovements.type, query.type) : undefined,
+        query.variantId ? eq(stockMovements.variantId, query.variantId) : undefined,
+        query.before ? lt(stockMovements.id, query.before) : undefined
+      ))
+      .orderBy(desc(stockMovements.id))
+      .limit(query.limit);
+  }
+
+  // Set the product's reorder threshold and open or resolve its alert against
+  // the current stock. null switches alerts off.
+  async setReorderThreshold(productId: number, reorderThreshold: number | null) {
+    return db.transaction(async tx => {
+      const [product] = await tx
+        .select({ id: products.id, supplierId: products.supplierId, stock: products.stock })
+        .from(products)
+        .where(eq(products.id, productId))
+        .for("update");
+      if (!product) {
+        return undefined;
+      }
+
+      await syncInventory(tx, product);
+      const [row] = await tx
+        .update(inventory)
+        .set({ reorderThreshold })
+        .where(and(eq(inventory.productId, productId), eq(inventory.supplierId, product.supplierId)))
+        .returning();
+      await syncLowStockAlert(tx, product, reorderThreshold);
+      return row;
+    });
+  }
+
+  // Mark the products' open alerts that haven't been announced yet as
+  // announced, and return them. Each alert is handed out once, however many
+  // stock changes run into it.
+  async claimLowStockAnnouncements(productIds: number[]) {
+    if (productIds.length === 0) {
+      return [];
+    }
+
+    const claimed = await db
+      .update(lowStockAlerts)
+      .set({ announcedAt: new Date() })
+      .where(and(
+        inArray(lowStockAlerts.productId, productIds),
+        eq(lowStockAlerts.status, "open"),
+        isNull(lowStockAlerts.announcedAt)
+      ))
+      .returning({ id: lowStockAlerts.id });
+    if (claimed.length === 0) {
+      return [];
+    }
+
+    return db
+      .select({ ...getTableColumns(lowStockAlerts), productName: products.name })
+      .from(lowStockAlerts)
+      .innerJoin(products, eq(products.id, lowStockAlerts.productId))
+      .where(inArray(lowStockAlerts.id, claimed.map(alert => alert.id)));
+  }
+
+  async getLowStockAlerts(filters: LowStockAlertFilters) {
+    if (filters.productIds?.length === 0) {
+      return [];
+    }
+
+    return db
+      .select({ ...getTableColumns(lowStockAlerts), productName: products.name })
+      .from(lowStockAlerts)
+      .innerJoin(products, eq(products.id, lowStockAlerts.productId))
+      .where(and(
+        filters.status !== "all" ? eq(lowStockAlerts.status, filters.status) : undefined,
+        filters.supplierId ? eq(lowStockAlerts.supplierId, filters.supplierId) : undefined,
+        filters.productIds ? inArray(lowStockAlerts.productId, filters.productIds) : undefined
+      ))
+      .orderBy(desc(lowStockAlerts.createdAt), desc(lowStockAlerts.id));
+  }
+}
+
+export const inventoryStorage = new InventoryStorage();
@@ -0,0 +1,51 @@
+import { catalogStorage } from "./catalogStorage";
+
+const DEFAULT_INTERVAL_MS = 60 * 1000;
+
+// Activate coming-soon products whose release date has passed and queue a
+// launch notification for everyone on their waitlist.
+export async function launchDueProducts(now: Date = new Date()) {
+  const dueProducts = await catalogStorage.getProductsDueForLaunch(now);
+  let launchedCount = 0;
+
+  for (const product of dueProducts) {
+    // launchProduct queues the waitlist's notifications in the transaction
+    // that flips the product, and only flips products that are still coming
+    // soon, so when several instances run the scheduler only one notifies
+    const launched = await catalogStorage.launchProduct(product.id);
+    if (launched) {
+      launchedCount++;
+    }
+  }
+
+  // Catches customers who joined while their product was launching
+  await catalogStorage.notifyLaunchedWaitlists();
+
+  return launchedCount;
+}
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+
+export function startLaunchScheduler(intervalMs = Number(process.env.LAUNCH_SCHEDULER_INTERVAL_MS) || DEFAULT_INTERVAL_MS) {
+  if (schedulerTimer) {
+    return;
+  }
+
+  const tick = () => {
+    launchDueProducts().catch(error => {
+      console.error("Error launching scheduled products:", error);
+    });
+  };
+
+  tick();
+  schedulerTimer = setInterval(tick, intervalMs);
+  // Don't keep the process alive just for the scheduler
+  schedulerTimer.unref();
+}
+
+export function stopLaunchScheduler() {
+  if (schedulerTimer) {
+    clearInterval(schedulerTimer);
+    schedulerTimer = null;
+  }
+}
@@ -0,0 +1,222 @@
+import type { Response } from "express";
+import pg from "pg";
+
+// Events pushed to open dashboards over server-sent events (GET /api/events)
+export const LIVE_EVENT_TYPES = ["order_created", "order_status_changed", "payment_confirmed", "low_stock"] as const;
+export type LiveEventType = typeof LIVE_EVENT_TYPES[number];
+
+// Who may receive an event. Admins receive everything; suppliers only events
+// about their own products or fulfillments, like the orders routes; customers
+// only events about their own orders.
+export interface LiveEventAudience {
+  supplierIds: number[];
+  customerId?: number | null;
+}
+
+export interface LiveEvent {
+  type: LiveEventType;
+  data: Record<string, unknown>;
+  audience: LiveEventAudience;
+}
+
+interface LiveEventClient {
+  userId: number;
+  role: string;
+  res: Response;
+}
+
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+const RECONNECT_DELAY_MS = 5 * 1000;
+
+// Events go through this Postgres channel, so every instance of the server
+// hears them and writes them to its own clients
+const LIVE_EVENTS_CHANNEL = "live_events";
+// Postgres rejects NOTIFY payloads of 8000 bytes or more
+const MAX_NOTIFY_BYTES = 7900;
+
+const clients = new Set<LiveEventClient>();
+let heartbeatTimer: NodeJS.Timeout | null = null;
+let reconnectTimer: NodeJS.Timeout | null = null;
+let listener: pg.Client | null = null;
+let running = false;
+
+export function canReceiveLiveEvent(client: { userId: number; role: string }, audience: LiveEventAudience) {
+  switch (client.role) {
+    case "admin":
+      return true;
+    case "supplier":
+      return audience.supplierIds.includes(client.userId);
+    case "customer":
+      return audience.customerId === client.userId;
+    default:
+      return false;
+  }
+}
+
+// Start an event stream on the response. Returns a function that removes the
+// client again, for when the connection closes.
+export function subscribeToLiveEvents(user: { id: number; role: string }, res: Response) {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    // Stop reverse proxies from buffering the stream
+    "X-Accel-Buffering": "no"
+  });
+  res.write("retry: 5000\n\n");
+
+  const client = { userId: user.id, role: user.role, res };
+  clients.add(client);
+
+  return () => {
+    clients.delete(client);
+  };
+}
+
+// Write the event to this instance's clients
+function deliverLiveEvent(event: LiveEvent) {
+  const message = `event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`;
+
+  for (const client of clients) {
+    if (canReceiveLiveEvent(client, event.audience)) {
+      client.res.write(message);
+    }
+  }
+}
+
+// Send the event to every instance. Without a listening connection, or when
+// the event is too large to notify, only this instance's clients get it.
+export function publishLiveEvent(event: LiveEvent) {
+  const payload = JSON.stringify(event);
+  const publisher = listener;
+  if (!publisher) {
+    deliverLiveEvent(event);
+    return;
+  }
+  if (Buffer.byteLength(payload) > MAX_NOTIFY_BYTES) {
+    console.warn(`Live event ${event.type} is too large to notify; delivering it locally only`);
+    deliverLiveEvent(event);
+    return;
+  }
+
+  publisher.query("select pg_notify($1, $2)", [LIVE_EVENTS_CHANNEL, payload]).catch(error => {
+    console.error("Error publishing live event:", error);
+    deliverLiveEvent(event);
+  });
+}
+
+// Anyone can notify the channel, so a payload that isn't an event (from
+// another version of the app, or sent by hand) is dropped rather than thrown
+// out of the connection's event handler
+function parseLiveEvent(payload: string): LiveEvent | null {
+  let event: any;
+  try {
+    event = JSON.parse(payload);
+  } catch (error) {
+    return null;
+  }
+
+  const valid = LIVE_EVENT_TYPES.includes(event?.type)
+    && typeof event.data === "object" && event.data !== null
+    && Array.isArray(event.audience?.supplierIds);
+  return valid ? event : null;
+}
+
+function scheduleReconnect(connectionString: string) {
+  if (running && !reconnectTimer) {
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      void connectListener(connectionString);
+    }, RECONNECT_DELAY_MS);
+    reconnectTimer.unref();
+  }
+}
+
+// Hold a connection that listens on the channel. Events published while it
+// is down are delivered locally until it reconnects.
+async function connectListener(connectionString: string) {
+  const client = new pg.Client({ connectionString });
+  const drop = () => {
+    if (listener === client) {
+      listener = null;
+    }
+    scheduleReconnect(connectionString);
+  };
+
+  client.on("notification", message => {
+    if (message.channel === LIVE_EVENTS_CHANNEL && message.payload) {
+      const event = parseLiveEvent(message.payload);
+      if (event) {
+        deliverLiveEvent(event);
+      } else {
+        console.error("Ignoring malformed live event:", message.payload.slice(0, 200));
+      }
+    }
+  });
+  client.on("error", error => {
+    console.error("Live events connection failed:", error);
+    client.end().catch(() => undefined);
+  });
+  client.on("end", drop);
+
+  try {
+    await client.connect();
+    await client.query(`listen ${LIVE_EVENTS_CHANNEL}`);
+  } catch (error) {
+    console.error("Error listening for live events:", error);
+    client.removeListener("end", drop);
+    client.end().catch(() => undefined);
+    scheduleReconnect(connectionString);
+    return;
+  }
+
+  if (!running) {
+    client.removeListener("end", drop);
+    await client.end();
+    return;
+  }
+  listener = client;
+}
+
+// Comment lines keep idle connections from being closed by proxies. Without
+// a database URL, events only reach this instance's clients.
+export function startLiveEvents(intervalMs = HEARTBEAT_INTERVAL_MS, connectionString = process.env.DATABASE_URL) {
+  if (running) {
+    return;
+  }
+  running = true;
+
+  if (connectionString) {
+    void connectListener(connectionString);
+  }
+
+  heartbeatTimer = setInterval(() => {
+    for (const client of clients) {
+      client.res.write(": heartbeat\n\n");
+    }
+  }, intervalMs);
+  // Don't keep the process alive just for the heartbeat
+  heartbeatTimer.unref();
+}
+
+export function stopLiveEvents() {
+  running = false;
+  if (reconnectTimer) {
+    clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+  }
+  if (listener) {
+    listener.end().catch(() => undefined);
+    listener = null;
+  }
+
+  if (heartbeatTimer) {
+    clearInterval(heartbeatTimer);
+    heartbeatTimer = null;
+  }
+
+  for (const client of clients) {
+    client.res.end();
+  }
+  clients.clear();
+}
@@ -0,0 +1,74 @@
+import { and, desc, eq, getTableColumns, lt, sql } from "drizzle-orm";
+import { products } from "@shared/schema";
+import { db } from "./db";
+import { DbTransaction, InsertMediaAsset, mediaAssets } from "./schemaExtensions";
+
+// An asset is in use while a product's imageUrls show one of its files
+const productsUsingAsset = sql`from ${products} where ${products.imageUrls} && ${mediaAssets.urls}`;
+const usedByProductIds = sql<number[]>`array(select ${products.id} ${productsUsingAsset} order by ${products.id})`;
+const unused = sql`not exists (select 1 ${productsUsingAsset})`;
+
+async function usedBytes(executor: typeof db | DbTransaction, ownerId: number) {
+  const [usage] = await executor
+    .select({ total: sql<number>`coalesce(sum(${mediaAssets.sizeBytes}), 0)::int` })
+    .from(mediaAssets)
+    .where(eq(mediaAssets.ownerId, ownerId));
+  return usage.total;
+}
+
+// Assets come with the ids of the products using them
+export class MediaAssetStorage {
+  async getMediaAsset(assetId: number) {
+    const [asset] = await db
+      .select({ ...getTableColumns(mediaAssets), productIds: usedByProductIds })
+      .from(mediaAssets)
+      .where(eq(mediaAssets.id, assetId));
+    return asset;
+  }
+
+  async getMediaAssets(filters: { ownerId?: number; createdBefore?: Date; unused?: boolean } = {}) {
+    return db
+      .select({ ...getTableColumns(mediaAssets), productIds: usedByProductIds })
+      .from(mediaAssets)
+      .where(and(
+        filters.ownerId !== undefined ? eq(mediaAssets.ownerId, filters.ownerId) : undefined,
+        filters.createdBefore ? lt(mediaAssets.createdAt, filters.createdBefore) : undefined,
+        filters.unused ? unused : undefined
+      ))
+      .orderBy(desc(mediaAssets.createdAt), desc(mediaAssets.id));
+  }
+
+  async getMediaUsage(ownerId: number) {
+    return usedBytes(db, ownerId);
+  }
+
+  // Record an uploaded asset. With a quota, the owner's usage is checked
+  // including this asset under a per-owner lock, so concurrent uploads can't
+  // both squeeze under it; null means the asset would go over and wasn't
+  // recorded.
+  async createMediaAsset(asset: InsertMediaAsset, quotaBytes: number | null = null) {
+    return db.transaction(async tx => {
+      if (quotaBytes !== null) {
+        await tx.execute(sql`select pg_advisory_xact_lock(hashtext('media_assets'), ${asset.ownerId})`);
+        if (await usedBytes(tx, asset.ownerId) + asset.sizeBytes > quotaBytes) {
+          return null;
+        }
+      }
+
+      const [created] = await tx.insert(mediaAssets).values(asset).returning();
+      return created;
+    });
+  }
+
+  // Forget the asset unless a product uses it, checked in the same
+  // statement. Returns the deleted asset, whose files the caller removes.
+  async deleteUnusedMediaAsset(assetId: number) {
+    const [deleted] = await db
+      .delete(mediaAssets)
+      .where(and(eq(mediaAssets.id, assetId), unused))
+      .returning();
+    return deleted;
+  }
+}
+
+export const mediaAssetStorage = new MediaAssetStorage();
@@ -0,0 +1,59 @@
+import { mediaAssetStorage } from "./mediaAssetStorage";
+import { MediaStorage } from "./mediaStorage";
+
+const DEFAULT_INTERVAL_MS = 60 * 60 * 1000;
+const DEFAULT_GRACE_HOURS = 24;
+
+// Per-supplier storage quota for uploaded media, in bytes
+export const MEDIA_QUOTA_BYTES = Number(process.env.MEDIA_QUOTA_BYTES) || 500 * 1024 * 1024;
+
+// Delete uploads that no product's imageUrls refers to once they are older than
+// the grace period, which leaves time to attach a fresh upload to a product.
+// Only tracked assets are seen; uploads from before tracking are added by
+// registerLegacyMedia.ts.
+export async function cleanupOrphanedMedia(
+  mediaStorage: MediaStorage,
+  graceHours = Number(process.env.MEDIA_ORPHAN_GRACE_HOURS) || DEFAULT_GRACE_HOURS
+) {
+  const cutoff = new Date(Date.now() - graceHours * 60 * 60 * 1000);
+  const candidates = await mediaAssetStorage.getMediaAssets({ createdBefore: cutoff, unused: true });
+
+  let removedCount = 0;
+  for (const candidate of candidates) {
+    // A product may have started using it since it was listed
+    const asset = await mediaAssetStorage.deleteUnusedMediaAsset(candidate.id);
+    if (!asset) {
+      continue;
+    }
+
+    for (const key of asset.keys) {
+      await mediaStorage.delete(key);
+    }
+    removedCount++;
+  }
+
+  return removedCount;
+}
+
+let cleanupTimer: NodeJS.Timeout | null = null;
+
+export function startMediaCleanup(mediaStorage: MediaStorage, intervalMs = DEFAULT_INTERVAL_MS) {
+  if (cleanupTimer) {
+    return;
+  }
+
+  cleanupTimer = setInterval(() => {
+    cleanupOrphanedMedia(mediaStorage).catch(error => {
+      console.error("Error cleaning up orphaned media:", error);
+    });
+  }, intervalMs);
+  // Don't keep the process alive just for the cleanup job
+  cleanupTimer.unref();
+}
+
+export function stopMediaCleanup() {
+  if (cleanupTimer) {
+    clearInterval(cleanupTimer);
+    cleanupTimer = null;
+  }
+}
@@ -0,0 +1,96 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import os from "os";
+import path from "path";
+import fs from "fs-extra";
+import S3rver from "s3rver";
+import { S3MediaStorage, MediaStorageError } from "./mediaStorage";
+
+// S3MediaStorage against s3rver, a local S3 stand-in, so the driver is
+// exercised over real S3 requests without an AWS account.
+//
+// Runs with Node's own test runner. The app's package.json needs s3rver and
+// tsx as dev dependencies and a test script that runs this file:
+//   node --import tsx --test mediaStorage.test.ts
+const BUCKET = "media";
+
+let server: S3rver;
+let directory: string;
+let mediaStorage: S3MediaStorage;
+
+before(async () => {
+  directory = await fs.mkdtemp(path.join(os.tmpdir(), "s3rver-"));
+  server = new S3rver({
+    address: "127.0.0.1",
+    port: 0,
+    directory,
+    silent: true,
+    configureBuckets: [{ name: BUCKET, configs: [] }]
+  });
+  const { port } = await server.run();
+
+  mediaStorage = new S3MediaStorage({
+    bucket: BUCKET,
+    region: "us-east-1",
+    endpoint: `http://127.0.0.1:${port}`,
+    // s3rver accepts these fixed credentials
+    accessKeyId: "S3RVER",
+    secretAccessKey: "S3RVER",
+    forcePathStyle: true,
+    publicBaseUrl: `http://127.0.0.1:${port}/${BUCKET}`
+  });
+});
+
+after(async () => {
+  await server.close();
+  await fs.remove(directory);
+});
+
+test("put stores an object that exists afterwards", async () => {
+  const key = "products/put-test.webp";
+  assert.equal(await mediaStorage.exists(key), false);
+
+  await mediaStorage.put(key, Buffer.from("image bytes"), "image/webp");
+
+  assert.equal(await mediaStorage.exists(key), true);
+});
+
+test("delete removes the object", async () => {
+  const key = "products/delete-test.webp";
+  await mediaStorage.put(key, Buffer.from("image bytes"), "image/webp");
+
+  await mediaStorage.delete(key);
+
+  assert.equal(await mediaStorage.exists(key), false);
+});
+
+test("size gives the stored bytes, and null for a missing object", async () => {
+  const key = "products/size-test.webp";
+  await mediaStorage.put(key, Buffer.from("image bytes"), "image/webp");
+
+  assert.equal(await mediaStorage.size(key), 11);
+  assert.equal(await mediaStorage.size("products/missing.webp"), null);
+});
+
+test("getSignedUrl gives a URL that serves the object", async () => {
+  const key = "products/signed-test.avif";
+  await mediaStorage.put(key, Buffer.from("avif bytes"), "image/avif");
+
+  const response = await fetch(await mediaStorage.getSignedUrl(key, 60));
+
+  assert.equal(response.status, 200);
+  assert.equal(response.headers.get("content-type"), "image/avif");
+  assert.equal(await response.text(), "avif bytes");
+});
+
+test("public URLs map back to their keys", () => {
+  const url = mediaStorage.getPublicUrl("products/url-test.webp");
+
+  assert.equal(mediaStorage.keyFromUrl(url), "products/url-test.webp");
+  assert.equal(mediaStorage.keyFromUrl("https://elsewhere.example/products/url-test.webp"), null);
+});
+
+test("keys that could escape the bucket prefix are rejected", async () => {
+  await assert.rejects(mediaStorage.put("../outside.webp", Buffer.from(""), "image/webp"), MediaStorageError);
+  await assert.rejects(mediaStorage.exists("/absolute.webp"), MediaStorageError);
+});
@@ -0,0 +1,214 @@
+import path from "path";
+import fs from "fs-extra";
+import {
+  S3Client,
+  PutObjectCommand,
+  DeleteObjectCommand,
+  HeadObjectCommand,
+  GetObjectCommand
+} from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+
+// Where uploaded media lives. Keys are slash separated paths such as
+// "products/product-123.webp"; drivers map them onto their own layout.
+export interface MediaStorage {
+  readonly name: string;
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  delete(key: string): Promise<void>;
+  exists(key: string): Promise<boolean>;
+  // Size of the stored file in bytes, or null when there is none
+  size(key: string): Promise<number | null>;
+  // Stable URL suitable for storing in product imageUrls
+  getPublicUrl(key: string): string;
+  // Time-limited URL for media that shouldn't be publicly listed
+  getSignedUrl(key: string, expiresInSeconds?: number): Promise<string>;
+  // Reverse of getPublicUrl, for URLs this storage produced
+  keyFromUrl(url: string): string | null;
+}
+
+export class MediaStorageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MediaStorageError";
+  }
+}
+
+const contentTypes: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".avif": "image/avif"
+};
+
+export function contentTypeForKey(key: string) {
+  return contentTypes[path.extname(key).toLowerCase()] || "application/octet-stream";
+}
+
+// Reject keys that could escape the storage root
+function assertSafeKey(key: string) {
+  if (!key || key.startsWith("/") || key.split("/").some(part => part === ".." || part === "")) {
+    throw new MediaStorageError(`Invalid media key: ${key}`);
+  }
+}
+
+export class LocalMediaStorage implements MediaStorage {
+  readonly name = "local";
+
+  constructor(private rootDir: string, private publicBaseUrl = "/uploads") {}
+
+  private filePath(key: string) {
+    assertSafeKey(key);
+    return path.join(this.rootDir, ...key.split("/"));
+  }
+
+  async put(key: string, body: Buffer) {
+    const filePath = this.filePath(key);
+    await fs.ensureDir(path.dirname(filePath));
+    await fs.writeFile(filePath, body);
+  }
+
+  async delete(key: string) {
+    await fs.remove(this.filePath(key));
+  }
+
+  async exists(key: string) {
+    return fs.pathExists(this.filePath(key));
+  }
+
+  async size(key: string) {
+    try {
+      return (await fs.stat(this.filePath(key))).size;
+    } catch (error: any) {
+      if (error?.code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  getPublicUrl(key: string) {
+    assertSafeKey(key);
+    return `${this.publicBaseUrl}/${key}`;
+  }
+
+  // Local files are served statically, so the public URL is all there is
+  async getSignedUrl(key: string) {
+    return this.getPublicUrl(key);
+  }
+
+  keyFromUrl(url: string) {
+    const prefix = `${this.publicBaseUrl}/`;
+    return url.startsWith(prefix) ? url.slice(prefix.length) : null;
+  }
+}
+
+export interface S3MediaStorageOptions {
+  bucket: string;
+  region: string;
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  // MinIO and most self-hosted S3 stand-ins need path-style addressing
+  forcePathStyle?: boolean;
+  // Base URL the bucket is publicly served from (a CDN or the bucket URL)
+  publicBaseUrl: string;
+}
+
+export class S3MediaStorage implements MediaStorage {
+  readonly name = "s3";
+  private client: S3Client;
+
+  constructor(private options: S3MediaStorageOptions) {
+    this.client = new S3Client({
+      region: options.region,
+      endpoint: options.endpoint,
+      forcePathStyle: options.forcePathStyle,
+      credentials: options.accessKeyId && options.secretAccessKey
+        ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+        : undefined
+    });
+  }
+
+  async put(key: string, body: Buffer, contentType: string) {
+    assertSafeKey(key);
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.options.bucket,
+      Key: key,
+      Body: body,
+      ContentType: contentType,
+      CacheControl: "public, max-age=31536000, immutable"
+    }));
+  }
+
+  async delete(key: string) {
+    assertSafeKey(key);
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.options.bucket, Key: key }));
+  }
+
+  async exists(key: string) {
+    return (await this.size(key)) !== null;
+  }
+
+  async size(key: string) {
+    assertSafeKey(key);
+    try {
+      const head = await this.client.send(new HeadObjectCommand({ Bucket: this.options.bucket, Key: key }));
+      return head.ContentLength ?? 0;
+    } catch (error: any) {
+      if (error?.$metadata?.httpStatusCode === 404 || error?.name === "NotFound") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  getPublicUrl(key: string) {
+    assertSafeKey(key);
+    return `${this.options.publicBaseUrl.replace(/\/+$/, "")}/${key}`;
+  }
+
+  async getSignedUrl(key: string, expiresInSeconds = 15 * 60) {
+    assertSafeKey(key);
+    return getSignedUrl(
+      this.client,
+      new GetObjectCommand({ Bucket: this.options.bucket, Key: key }),
+      { expiresIn: expiresInSeconds }
+    );
+  }
+
+  keyFromUrl(url: string) {
+    const prefix = `${this.options.publicBaseUrl.replace(/\/+$/, "")}/`;
+    return url.startsWith(prefix) ? url.slice(prefix.length) : null;
+  }
+}
+
+export const LOCAL_UPLOAD_ROOT = path.join(process.cwd(), "uploads");
+
+// MEDIA_STORAGE selects the driver ("local" by default, or "s3"). The S3
+// driver works with AWS and with S3-compatible servers such as MinIO.
+export function createMediaStorage(driver = process.env.MEDIA_STORAGE || "local"): MediaStorage {
+  switch (driver) {
+    case "local":
+      return new LocalMediaStorage(LOCAL_UPLOAD_ROOT);
+    case "s3": {
+      const { S3_BUCKET, S3_PUBLIC_URL } = process.env;
+      if (!S3_BUCKET || !S3_PUBLIC_URL) {
+        throw new MediaStorageError("S3 media storage needs S3_BUCKET and S3_PUBLIC_URL");
+      }
+
+      return new S3MediaStorage({
+        bucket: S3_BUCKET,
+        region: process.env.S3_REGION || "us-east-1",
+        endpoint: process.env.S3_ENDPOINT,
+        accessKeyId: process.env.S3_ACCESS_KEY_ID,
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+        publicBaseUrl: S3_PUBLIC_URL
+      });
+    }
+    default:
+      throw new MediaStorageError(`Unknown media storage driver: ${driver}`);
+  }
+}
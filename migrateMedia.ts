@@ -0,0 +1,76 @@
+// Copies locally stored product images into the configured media storage and
+// rewrites product imageUrls to point at their new location.
+//
+// Usage: MEDIA_STORAGE=s3 S3_BUCKET=... S3_PUBLIC_URL=... npx tsx migrateMedia.ts [--dry-run] [--delete-local]
+import path from "path";
+import fs from "fs-extra";
+import { storage } from "./storage";
+import {
+  createMediaStorage,
+  contentTypeForKey,
+  LocalMediaStorage,
+  LOCAL_UPLOAD_ROOT
+} from "./mediaStorage";
+
+async function migrateMedia(options: { dryRun?: boolean; deleteLocal?: boolean } = {}) {
+  const source = new LocalMediaStorage(LOCAL_UPLOAD_ROOT);
+  const target = createMediaStorage();
+
+  if (target instanceof LocalMediaStorage) {
+    throw new Error("MEDIA_STORAGE points at local disk; nothing to migrate");
+  }
+
+  const productsDir = path.join(LOCAL_UPLOAD_ROOT, "products");
+  const fileNames = (await fs.pathExists(productsDir)) ? await fs.readdir(productsDir) : [];
+  const migratedKeys = new Set<string>();
+
+  for (const fileName of fileNames) {
+    const key = `products/${fileName}`;
+    if (!options.dryRun && !(await target.exists(key))) {
+      const body = await fs.readFile(path.join(productsDir, fileName));
+      await target.put(key, body, contentTypeForKey(key));
+    }
+    migratedKeys.add(key);
+  }
+
+  let updatedProducts = 0;
+  const products = await storage.getProducts();
+  for (const product of products) {
+    let changed = false;
+    const imageUrls = product.imageUrls.map(url => {
+      const key = source.keyFromUrl(url);
+      if (key && migratedKeys.has(key)) {
+        changed = true;
+        return target.getPublicUrl(key);
+      }
+      return url;
+    });
+
+    if (changed) {
+      updatedProducts++;
+      if (!options.dryRun) {
+        await storage.updateProduct(product.id, { imageUrls });
+      }
+    }
+  }
+
+  // Only remove local copies once every product points at the new location
+  if (options.deleteLocal && !options.dryRun) {
+    for (const key of Array.from(migratedKeys)) {
+      await source.delete(key);
+    }
+  }
+
+  return { files: migratedKeys.size, products: updatedProducts };
+}
+
+const args = process.argv.slice(2);
+migrateMedia({ dryRun: args.includes("--dry-run"), deleteLocal: args.includes("--delete-local") })
+  .then(result => {
+    console.log(`Migrated ${result.files} files and updated ${result.products} products`);
+    process.exit(0);
+  })
+  .catch(error => {
+    console.error("Media migration failed:", error);
+    process.exit(1);
+  });
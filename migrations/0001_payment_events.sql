@@ -0,0 +1,14 @@
+-- Paystack webhook events, keyed by event id for idempotent handling
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS payment_reference text;
+CREATE INDEX IF NOT EXISTS orders_payment_reference_idx ON orders (payment_reference);
+
+CREATE TABLE IF NOT EXISTS payment_events (
+  id serial PRIMARY KEY,
+  event_id text NOT NULL UNIQUE,
+  event text NOT NULL,
+  reference text,
+  payload jsonb NOT NULL,
+  status text NOT NULL DEFAULT 'processing',
+  claimed_at timestamp NOT NULL DEFAULT now(),
+  processed_at timestamp
+);
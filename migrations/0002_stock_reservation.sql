@@ -0,0 +1,6 @@
+-- Stock is only ever taken with a conditional decrement; the constraint
+-- makes sure nothing else can push it below zero either
+UPDATE products SET stock = 0 WHERE stock < 0;
+UPDATE inventory SET stock = 0 WHERE stock < 0;
+ALTER TABLE products ADD CONSTRAINT products_stock_non_negative CHECK (stock >= 0);
+ALTER TABLE inventory ADD CONSTRAINT inventory_stock_non_negative CHECK (stock >= 0);
@@ -0,0 +1,13 @@
+-- Status timeline for orders and, from 0004 on, their fulfillment groups
+CREATE TABLE IF NOT EXISTS order_status_history (
+  id serial PRIMARY KEY,
+  order_id integer NOT NULL REFERENCES orders (id) ON DELETE CASCADE,
+  supplier_id integer,
+  from_status text NOT NULL,
+  to_status text NOT NULL,
+  actor_id integer,
+  actor_role text NOT NULL,
+  note text,
+  created_at timestamp NOT NULL DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS order_status_history_order_idx ON order_status_history (order_id);
@@ -0,0 +1,36 @@
+-- Per-supplier fulfillment groups. Order items remember their supplier, and
+-- how many of them went back into stock so that no unit is returned twice.
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS supplier_id integer;
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS returned_quantity integer NOT NULL DEFAULT 0;
+
+UPDATE order_items
+SET supplier_id = products.supplier_id
+FROM products
+WHERE order_items.product_id = products.id AND order_items.supplier_id IS NULL;
+
+-- Cancelled orders already had all their stock returned
+UPDATE order_items
+SET returned_quantity = quantity
+FROM orders
+WHERE order_items.order_id = orders.id AND orders.status = 'cancelled';
+
+CREATE TABLE IF NOT EXISTS order_fulfillments (
+  id serial PRIMARY KEY,
+  order_id integer NOT NULL REFERENCES orders (id) ON DELETE CASCADE,
+  supplier_id integer NOT NULL,
+  status text NOT NULL DEFAULT 'pending',
+  tracking_number text,
+  shipped_at timestamp,
+  delivered_at timestamp,
+  created_at timestamp NOT NULL DEFAULT now(),
+  updated_at timestamp NOT NULL DEFAULT now(),
+  CONSTRAINT order_fulfillments_order_supplier_key UNIQUE (order_id, supplier_id)
+);
+
+-- Existing orders get one group per supplier, at the order's status
+INSERT INTO order_fulfillments (order_id, supplier_id, status)
+SELECT DISTINCT order_items.order_id, order_items.supplier_id, orders.status
+FROM order_items
+JOIN orders ON orders.id = order_items.order_id
+WHERE order_items.supplier_id IS NOT NULL
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,14 @@
+CREATE TABLE IF NOT EXISTS refunds (
+  id serial PRIMARY KEY,
+  order_id integer NOT NULL REFERENCES orders (id) ON DELETE CASCADE,
+  amount integer NOT NULL,
+  items jsonb NOT NULL,
+  reason text,
+  provider_refund_id text,
+  status text NOT NULL DEFAULT 'requested',
+  created_by integer,
+  created_at timestamp NOT NULL DEFAULT now(),
+  updated_at timestamp NOT NULL DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS refunds_order_idx ON refunds (order_id);
+CREATE INDEX IF NOT EXISTS refunds_provider_refund_idx ON refunds (provider_refund_id);
@@ -0,0 +1,39 @@
+-- Money was stored as decimal amounts (49.99); it is now integer minor units
+-- of the store currency (4999 pesewas). Each column is converted only while
+-- it is still non-integer, so running this again doesn't multiply twice.
+DO $$
+DECLARE
+  money_column record;
+BEGIN
+  FOR money_column IN
+    SELECT table_name, column_name
+    FROM information_schema.columns
+    WHERE table_schema = current_schema()
+      AND (table_name, column_name) IN (
+        ('products', 'price'),
+        ('order_items', 'price'),
+        ('orders', 'total_amount'),
+        ('orders', 'subtotal'),
+        ('orders', 'discount_amount')
+      )
+      AND data_type <> 'integer'
+  LOOP
+    EXECUTE format(
+      'ALTER TABLE %I ALTER COLUMN %I TYPE integer USING round(%I * 100)',
+      money_column.table_name, money_column.column_name, money_column.column_name
+    );
+  END LOOP;
+END $$;
+
+-- Priced orders record their subtotal and discount
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS subtotal integer NOT NULL DEFAULT 0;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS discount_amount integer NOT NULL DEFAULT 0;
+
+-- Everything sold so far was priced in the store currency (STORE_CURRENCY,
+-- GHS by default; change the two updates below if yours differs)
+ALTER TABLE products ADD COLUMN IF NOT EXISTS currency text;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS currency text;
+UPDATE products SET currency = 'GHS' WHERE currency IS NULL;
+UPDATE orders SET currency = 'GHS' WHERE currency IS NULL;
+ALTER TABLE products ALTER COLUMN currency SET NOT NULL;
+ALTER TABLE orders ALTER COLUMN currency SET NOT NULL;
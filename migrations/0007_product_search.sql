@@ -0,0 +1,5 @@
+-- Indexes for the storefront search filters and facets
+CREATE INDEX IF NOT EXISTS products_category_idx ON products (category);
+CREATE INDEX IF NOT EXISTS products_price_idx ON products (price);
+CREATE INDEX IF NOT EXISTS products_available_sizes_idx ON products USING gin (available_sizes);
+CREATE INDEX IF NOT EXISTS products_available_colors_idx ON products USING gin (available_colors);
@@ -0,0 +1,14 @@
+CREATE TABLE IF NOT EXISTS product_variants (
+  id serial PRIMARY KEY,
+  product_id integer NOT NULL REFERENCES products (id) ON DELETE CASCADE,
+  size text NOT NULL,
+  color text NOT NULL,
+  sku text NOT NULL,
+  price integer CHECK (price >= 0),
+  stock integer NOT NULL DEFAULT 0 CHECK (stock >= 0),
+  created_at timestamp NOT NULL DEFAULT now(),
+  CONSTRAINT product_variants_product_option_key UNIQUE (product_id, size, color),
+  CONSTRAINT product_variants_product_sku_key UNIQUE (product_id, sku)
+);
+
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS variant_id integer;
@@ -0,0 +1,20 @@
+CREATE TABLE IF NOT EXISTS product_waitlist (
+  id serial PRIMARY KEY,
+  product_id integer NOT NULL REFERENCES products (id) ON DELETE CASCADE,
+  customer_id integer NOT NULL,
+  created_at timestamp NOT NULL DEFAULT now(),
+  notified_at timestamp,
+  CONSTRAINT product_waitlist_product_customer_key UNIQUE (product_id, customer_id)
+);
+CREATE INDEX IF NOT EXISTS product_waitlist_pending_idx ON product_waitlist (product_id) WHERE notified_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS products_release_date_idx ON products (release_date) WHERE coming_soon;
+
+-- Notifications are queued here and sent by a worker
+CREATE TABLE IF NOT EXISTS notifications (
+  id serial PRIMARY KEY,
+  user_id integer NOT NULL,
+  type text NOT NULL,
+  data jsonb NOT NULL,
+  created_at timestamp NOT NULL DEFAULT now()
+);
@@ -0,0 +1,13 @@
+CREATE TABLE IF NOT EXISTS media_assets (
+  id serial PRIMARY KEY,
+  owner_id integer NOT NULL,
+  keys text[] NOT NULL,
+  urls text[] NOT NULL,
+  size_bytes integer NOT NULL,
+  renditions jsonb NOT NULL,
+  created_at timestamp NOT NULL DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS media_assets_owner_idx ON media_assets (owner_id);
+CREATE INDEX IF NOT EXISTS media_assets_created_at_idx ON media_assets (created_at);
+-- Finds the products using an asset
+CREATE INDEX IF NOT EXISTS products_image_urls_idx ON products USING gin (image_urls);
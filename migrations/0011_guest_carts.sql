@@ -0,0 +1,7 @@
+CREATE TABLE IF NOT EXISTS guest_carts (
+  id text PRIMARY KEY,
+  items jsonb NOT NULL,
+  created_at timestamp NOT NULL DEFAULT now(),
+  updated_at timestamp NOT NULL DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS guest_carts_updated_at_idx ON guest_carts (updated_at);
@@ -0,0 +1,34 @@
+CREATE TABLE IF NOT EXISTS promotions (
+  id serial PRIMARY KEY,
+  code text NOT NULL UNIQUE,
+  description text,
+  type text NOT NULL,
+  value integer NOT NULL DEFAULT 0,
+  max_discount integer,
+  min_spend integer NOT NULL DEFAULT 0,
+  categories text[] NOT NULL DEFAULT '{}',
+  supplier_ids integer[] NOT NULL DEFAULT '{}',
+  usage_limit integer,
+  per_customer_limit integer,
+  starts_at timestamp,
+  ends_at timestamp,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamp NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS promotion_redemptions (
+  id serial PRIMARY KEY,
+  promotion_id integer NOT NULL REFERENCES promotions (id),
+  order_id integer NOT NULL UNIQUE REFERENCES orders (id) ON DELETE CASCADE,
+  customer_id integer NOT NULL,
+  discount integer NOT NULL,
+  created_at timestamp NOT NULL DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS promotion_redemptions_promotion_customer_idx
+  ON promotion_redemptions (promotion_id, customer_id);
+
+-- Orders record the promotion they redeemed and the shipping they were charged
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS promotion_id integer;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS coupon_code text;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS coupon_discount integer NOT NULL DEFAULT 0;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS shipping_amount integer NOT NULL DEFAULT 0;
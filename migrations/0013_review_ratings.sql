@@ -0,0 +1,41 @@
+-- Rating aggregates are kept on the product so listings don't load reviews
+ALTER TABLE products ADD COLUMN IF NOT EXISTS rating_average numeric(3, 2);
+ALTER TABLE products ADD COLUMN IF NOT EXISTS rating_count integer NOT NULL DEFAULT 0;
+ALTER TABLE products ADD COLUMN IF NOT EXISTS rating_histogram jsonb NOT NULL
+  DEFAULT '{"1": 0, "2": 0, "3": 0, "4": 0, "5": 0}';
+
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS verified_purchase boolean NOT NULL DEFAULT false;
+-- One review per customer and product. Earlier duplicates are dropped,
+-- keeping each customer's first review, so the unique index can be built.
+DELETE FROM reviews
+WHERE id IN (
+  SELECT id FROM (
+    SELECT id, row_number() OVER (PARTITION BY customer_id, product_id ORDER BY id) AS position
+    FROM reviews
+  ) AS ranked
+  WHERE position > 1
+);
+CREATE UNIQUE INDEX IF NOT EXISTS reviews_customer_product_idx ON reviews (customer_id, product_id);
+
+UPDATE products SET
+  rating_average = stats.average,
+  rating_count = stats.count,
+  rating_histogram = stats.histogram
+FROM (
+  SELECT
+    product_id,
+    round(avg(rating)::numeric, 2) AS average,
+    count(*)::int AS count,
+    jsonb_build_object(
+      '1', count(*) FILTER (WHERE rating = 1),
+      '2', count(*) FILTER (WHERE rating = 2),
+      '3', count(*) FILTER (WHERE rating = 3),
+      '4', count(*) FILTER (WHERE rating = 4),
+      '5', count(*) FILTER (WHERE rating = 5)
+    ) AS histogram
+  FROM reviews
+  GROUP BY product_id
+) AS stats
+WHERE products.id = stats.product_id;
+
+CREATE INDEX IF NOT EXISTS products_rating_average_idx ON products (rating_average DESC NULLS LAST);
@@ -0,0 +1,15 @@
+-- Reviews written before moderation stay published
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'approved';
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS moderation_note text;
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS moderated_by integer;
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS moderated_at timestamp;
+CREATE INDEX IF NOT EXISTS reviews_status_idx ON reviews (status, product_id);
+
+CREATE TABLE IF NOT EXISTS review_reports (
+  id serial PRIMARY KEY,
+  review_id integer NOT NULL REFERENCES reviews (id) ON DELETE CASCADE,
+  reporter_id integer NOT NULL,
+  reason text,
+  created_at timestamp NOT NULL DEFAULT now(),
+  CONSTRAINT review_reports_review_reporter_key UNIQUE (review_id, reporter_id)
+);
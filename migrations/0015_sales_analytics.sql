@@ -0,0 +1,4 @@
+-- Analytics scan paid orders by creation date
+CREATE INDEX IF NOT EXISTS orders_revenue_created_at_idx ON orders (created_at)
+  WHERE payment_status IN ('paid', 'partially_refunded') AND status <> 'cancelled';
+CREATE INDEX IF NOT EXISTS order_items_order_id_idx ON order_items (order_id);
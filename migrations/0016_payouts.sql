@@ -0,0 +1,12 @@
+CREATE TABLE IF NOT EXISTS payouts (
+  id serial PRIMARY KEY,
+  supplier_id integer NOT NULL,
+  amount integer NOT NULL CHECK (amount > 0),
+  reference text,
+  note text,
+  created_by integer,
+  created_at timestamp NOT NULL DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS payouts_supplier_idx ON payouts (supplier_id, created_at);
+
+CREATE INDEX IF NOT EXISTS order_items_supplier_idx ON order_items (supplier_id);
@@ -0,0 +1,31 @@
+CREATE TABLE IF NOT EXISTS stock_movements (
+  id serial PRIMARY KEY,
+  product_id integer NOT NULL,
+  variant_id integer,
+  type text NOT NULL,
+  delta integer NOT NULL,
+  stock_after integer NOT NULL,
+  order_id integer,
+  actor_id integer,
+  actor_role text NOT NULL,
+  note text,
+  created_at timestamp NOT NULL DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS stock_movements_product_idx ON stock_movements (product_id, id);
+
+ALTER TABLE inventory ADD COLUMN IF NOT EXISTS reorder_threshold integer CHECK (reorder_threshold >= 0);
+
+CREATE TABLE IF NOT EXISTS low_stock_alerts (
+  id serial PRIMARY KEY,
+  product_id integer NOT NULL REFERENCES products (id) ON DELETE CASCADE,
+  supplier_id integer NOT NULL,
+  stock integer NOT NULL,
+  reorder_threshold integer NOT NULL,
+  status text NOT NULL DEFAULT 'open',
+  created_at timestamp NOT NULL DEFAULT now(),
+  resolved_at timestamp
+);
+CREATE INDEX IF NOT EXISTS low_stock_alerts_supplier_status_idx ON low_stock_alerts (supplier_id, status);
+-- At most one open alert per product
+CREATE UNIQUE INDEX IF NOT EXISTS low_stock_alerts_open_product_key
+  ON low_stock_alerts (product_id) WHERE status = 'open';
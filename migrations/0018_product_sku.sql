@@ -0,0 +1,3 @@
+-- Imports match products on the supplier's own SKU
+ALTER TABLE products ADD COLUMN IF NOT EXISTS sku text;
+CREATE UNIQUE INDEX IF NOT EXISTS products_supplier_sku_key ON products (supplier_id, sku) WHERE sku IS NOT NULL;
@@ -0,0 +1,12 @@
+CREATE TABLE IF NOT EXISTS invoices (
+  id serial PRIMARY KEY,
+  order_id integer NOT NULL UNIQUE REFERENCES orders (id),
+  sequence integer NOT NULL UNIQUE,
+  issued_at timestamp NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS invoice_sequence (
+  id integer PRIMARY KEY CHECK (id = 1),
+  last_value integer NOT NULL
+);
+INSERT INTO invoice_sequence (id, last_value) VALUES (1, 0) ON CONFLICT (id) DO NOTHING;
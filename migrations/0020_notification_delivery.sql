@@ -0,0 +1,22 @@
+-- Delivery state of the notification outbox
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'pending';
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS attempts integer NOT NULL DEFAULT 0;
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS delivered_channels text[] NOT NULL DEFAULT '{}';
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS next_attempt_at timestamp DEFAULT now();
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS leased_until timestamp;
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS last_error text;
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS delivered_at timestamp;
+CREATE INDEX IF NOT EXISTS notifications_due_idx ON notifications (status, next_attempt_at);
+
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  user_id integer PRIMARY KEY,
+  email boolean NOT NULL,
+  sms boolean NOT NULL,
+  muted_types text[] NOT NULL DEFAULT '{}',
+  updated_at timestamp NOT NULL DEFAULT now()
+);
+
+-- Reviews remember when they were first published, so a supplier hears
+-- about each review once
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS published_at timestamp;
+UPDATE reviews SET published_at = created_at WHERE status = 'approved' AND published_at IS NULL;
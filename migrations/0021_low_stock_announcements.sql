@@ -0,0 +1,3 @@
+-- Each open low-stock alert is pushed to its supplier once, when it opens
+ALTER TABLE low_stock_alerts ADD COLUMN IF NOT EXISTS announced_at timestamp;
+UPDATE low_stock_alerts SET announced_at = created_at WHERE announced_at IS NULL;
@@ -0,0 +1,105 @@
+import { and, asc, eq, inArray, isNull, lte, lt, or } from "drizzle-orm";
+import { db } from "./db";
+import { notifications, notificationPreferences, DbTransaction } from "./schemaExtensions";
+import { DEFAULT_NOTIFICATION_PREFERENCES, type NotificationInput, type NotificationPreferences } from "./notifications";
+import type { NotificationChannel } from "./notificationTransports";
+
+// How long a worker holds claimed notifications. A worker that dies while
+// sending gives them up once this passes.
+const LEASE_MS = 5 * 60 * 1000;
+
+// Queue notifications inside the caller's transaction, so they are only sent
+// when the change they announce is committed
+export async function queueNotifications(tx: DbTransaction, inputs: NotificationInput[]) {
+  if (inputs.length > 0) {
+    await tx.insert(notifications).values(inputs);
+  }
+}
+
+export class NotificationStorage {
+  async createNotification(input: NotificationInput) {
+    const [notification] = await db.insert(notifications).values(input).returning();
+    return notification;
+  }
+
+  // Lease a batch of due notifications. Rows another worker is claiming are
+  // skipped rather than waited for, and leased rows aren't due until the
+  // lease runs out.
+  async claimDueNotifications(options: { now: Date; limit: number }) {
+    return db.transaction(async tx => {
+      const due = await tx
+        .select({ id: notifications.id })
+        .from(notifications)
+        .where(and(
+          eq(notifications.status, "pending"),
+          lte(notifications.nextAttemptAt, options.now),
+          or(isNull(notifications.leasedUntil), lt(notifications.leasedUntil, options.now))
+        ))
+        .orderBy(asc(notifications.nextAttemptAt), asc(notifications.id))
+        .limit(options.limit)
+        .for("update", { skipLocked: true });
+      if (due.length === 0) {
+        return [];
+      }
+
+      return tx
+        .update(notifications)
+        .set({ leasedUntil: new Date(options.now.getTime() + LEASE_MS) })
+        .where(inArray(notifications.id, due.map(notification => notification.id)))
+        .returning();
+    });
+  }
+
+  async markNotificationDelivered(notificationId: number, deliveredChannels: NotificationChannel[]) {
+    await db
+      .update(notifications)
+      .set({ status: "delivered", deliveredChannels, deliveredAt: new Date(), leasedUntil: null })
+      .where(eq(notifications.id, notificationId));
+  }
+
+  // Without a next attempt the notification has given up and stays failed
+  async markNotificationFailed(notificationId: number, failure: {
+    attempts: number;
+    deliveredChannels: NotificationChannel[];
+    lastError: string;
+    nextAttemptAt: Date | null;
+  }) {
+    await db
+      .update(notifications)
+      .set({ ...failure, status: failure.nextAttemptAt ? "pending" : "failed", leasedUntil: null })
+      .where(eq(notifications.id, notificationId));
+  }
+
+  // Only what the user has set; callers fill in the defaults
+  async getNotificationPreferences(userId: number): Promise<Partial<NotificationPreferences>> {
+    const [preferences] = await db
+      .select({
+        email: notificationPreferences.email,
+        sms: notificationPreferences.sms,
+        mutedTypes: notificationPreferences.mutedTypes
+      })
+      .from(notificationPreferences)
+      .where(eq(notificationPreferences.userId, userId));
+    return preferences ?? {};
+  }
+
+  // Change only the given preferences; a user's first change starts from
+  // the defaults
+  async setNotificationPreferences(userId: number, updates: Partial<NotificationPreferences>) {
+    const [saved] = await db
+      .insert(notificationPreferences)
+      .values({ ...DEFAULT_NOTIFICATION_PREFERENCES, ...updates, userId })
+      .onConflictDoUpdate({
+        target: notificationPreferences.userId,
+        set: { ...updates, updatedAt: new Date() }
+      })
+      .returning({
+        email: notificationPreferences.email,
+        sms: notificationPreferences.sms,
+        mutedTypes: notificationPreferences.mutedTypes
+      });
+    return saved;
+  }
+}
+
+export const notificationStorage = new NotificationStorage();
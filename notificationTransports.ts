@@ -0,0 +1,147 @@
+import nodemailer from "nodemailer";
+import fs from "fs/promises";
+
+export const NOTIFICATION_CHANNELS = ["email", "sms"] as const;
+export type NotificationChannel = typeof NOTIFICATION_CHANNELS[number];
+
+export interface OutgoingMessage {
+  // Email address or phone number, depending on the channel
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface NotificationTransport {
+  readonly name: string;
+  readonly channel: NotificationChannel;
+  send(message: OutgoingMessage): Promise<void>;
+}
+
+export type NotificationTransports = Partial<Record<NotificationChannel, NotificationTransport>>;
+
+export class NotificationTransportError extends Error {
+  constructor(message: string, public readonly details?: unknown) {
+    super(message);
+    this.name = "NotificationTransportError";
+  }
+}
+
+export class SmtpTransport implements NotificationTransport {
+  readonly name = "smtp";
+  readonly channel = "email";
+  private transporter: nodemailer.Transporter;
+
+  constructor(options: { host: string; port: number; user?: string; pass?: string }, private from: string) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.port === 465,
+      auth: options.user ? { user: options.user, pass: options.pass } : undefined
+    });
+  }
+
+  async send(message: OutgoingMessage) {
+    await this.transporter.sendMail({
+      from: this.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text
+    });
+  }
+}
+
+// Posts { to, from, message } as JSON to an SMS gateway, which is the shape
+// most Ghanaian bulk SMS providers accept behind a bearer API key
+export class HttpSmsTransport implements NotificationTransport {
+  readonly name = "http";
+  readonly channel = "sms";
+
+  constructor(private gatewayUrl: string, private apiKey: string, private senderId: string) {}
+
+  async send(message: OutgoingMessage) {
+    const response = await fetch(this.gatewayUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${this.apiKey}`
+      },
+      body: JSON.stringify({ to: message.to, from: this.senderId, message: message.text })
+    });
+
+    if (!response.ok) {
+      throw new NotificationTransportError(`SMS gateway responded with ${response.status}`, await response.text());
+    }
+  }
+}
+
+// Development transports: print messages, or append them as JSON lines to a file
+export class ConsoleTransport implements NotificationTransport {
+  readonly name = "console";
+
+  constructor(readonly channel: NotificationChannel) {}
+
+  async send(message: OutgoingMessage) {
+    console.log(`[notification:${this.channel}] to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
+
+export class FileTransport implements NotificationTransport {
+  readonly name = "file";
+
+  constructor(readonly channel: NotificationChannel, private filePath: string) {}
+
+  async send(message: OutgoingMessage) {
+    const entry = { channel: this.channel, sentAt: new Date().toISOString(), ...message };
+    await fs.appendFile(this.filePath, JSON.stringify(entry) + "\n");
+  }
+}
+
+function createTransport(channel: NotificationChannel, transportName: string): NotificationTransport | undefined {
+  switch (transportName) {
+    case "none":
+      return undefined;
+    case "console":
+      return new ConsoleTransport(channel);
+    case "file":
+      return new FileTransport(channel, process.env.NOTIFICATION_LOG_FILE || "notifications.log");
+    case "smtp":
+      if (channel !== "email") break;
+      if (!process.env.SMTP_HOST || !process.env.NOTIFICATION_FROM) {
+        throw new NotificationTransportError("Missing SMTP_HOST or NOTIFICATION_FROM environment variable");
+      }
+      return new SmtpTransport({
+        host: process.env.SMTP_HOST,
+        port: Number(process.env.SMTP_PORT) || 587,
+        user: process.env.SMTP_USER,
+        pass: process.env.SMTP_PASS
+      }, process.env.NOTIFICATION_FROM);
+    case "http":
+      if (channel !== "sms") break;
+      if (!process.env.SMS_GATEWAY_URL || !process.env.SMS_API_KEY) {
+        throw new NotificationTransportError("Missing SMS_GATEWAY_URL or SMS_API_KEY environment variable");
+      }
+      return new HttpSmsTransport(process.env.SMS_GATEWAY_URL, process.env.SMS_API_KEY, process.env.SMS_SENDER_ID || "KuandorWear");
+  }
+
+  throw new NotificationTransportError(`Unknown ${channel} transport: ${transportName}`);
+}
+
+// NOTIFICATION_EMAIL_TRANSPORT ("smtp", "console", "file" or "none") and
+// NOTIFICATION_SMS_TRANSPORT ("http", "console", "file" or "none") pick the
+// transports. Without them, production sends email only when SMTP is
+// configured and SMS only when a gateway is configured; every other
+// environment prints to the console. A transport that is picked but not
+// configured stops the server from starting, rather than failing (or
+// quietly skipping) every send.
+export function createNotificationTransports(): NotificationTransports {
+  const production = process.env.NODE_ENV === "production";
+  const emailTransport = process.env.NOTIFICATION_EMAIL_TRANSPORT
+    || (production ? (process.env.SMTP_HOST ? "smtp" : "none") : "console");
+  const smsTransport = process.env.NOTIFICATION_SMS_TRANSPORT
+    || (production ? (process.env.SMS_GATEWAY_URL ? "http" : "none") : "console");
+
+  return {
+    email: createTransport("email", emailTransport),
+    sms: createTransport("sms", smsTransport)
+  };
+}
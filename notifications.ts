@@ -0,0 +1,224 @@
+import { z } from "zod";
+import { storage } from "./storage";
+import { notificationStorage } from "./notificationStorage";
+import {
+  NOTIFICATION_CHANNELS,
+  NotificationChannel,
+  NotificationTransports
+} from "./notificationTransports";
+
+// Notifications are written to an outbox (notificationStorage.createNotification,
+// or the notifications argument of the storage call that records the event,
+// so both land in one transaction) and delivered later by the worker below.
+export const NOTIFICATION_TYPES = [
+  "order_placed",
+  "order_received",
+  "payment_confirmed",
+  "order_status_changed",
+  "review_received",
+  "product_launched"
+] as const;
+export type NotificationType = typeof NOTIFICATION_TYPES[number];
+
+export interface NotificationInput {
+  userId: number;
+  type: NotificationType;
+  data: Record<string, any>;
+}
+
+export const notificationPreferencesSchema = z.object({
+  email: z.boolean(),
+  sms: z.boolean(),
+  // Types the user never wants to hear about, on any channel
+  mutedTypes: z.array(z.enum(NOTIFICATION_TYPES)).max(NOTIFICATION_TYPES.length)
+}).partial();
+
+export type NotificationPreferences = Required<z.infer<typeof notificationPreferencesSchema>>;
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  email: true,
+  sms: false,
+  mutedTypes: []
+};
+
+const MAX_DELIVERY_ATTEMPTS = 6;
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+const DEFAULT_INTERVAL_MS = 30 * 1000;
+const BATCH_SIZE = 50;
+
+function formatAmount(amount: number, currency: string) {
+  return `${currency} ${(amount / 100).toFixed(2)}`;
+}
+
+interface RenderedNotification {
+  subject: string;
+  text: string;
+  // Short form for SMS
+  sms: string;
+}
+
+const templates: Record<NotificationType, (data: Record<string, any>) => RenderedNotification> = {
+  order_placed: data => ({
+    subject: `Order #${data.orderId} received`,
+    text: `Thanks for your order #${data.orderId} of ${formatAmount(data.totalAmount, data.currency)}. We'll let you know once payment is confirmed.`,
+    sms: `Order #${data.orderId} received: ${formatAmount(data.totalAmount, data.currency)}.`
+  }),
+  order_received: data => ({
+    subject: `New order #${data.orderId}`,
+    text: `Order #${data.orderId} includes ${data.itemCount} of your items. Prepare them once payment is confirmed.`,
+    sms: `New order #${data.orderId}: ${data.itemCount} of your items.`
+  }),
+  payment_confirmed: data => ({
+    subject: `Payment confirmed for order #${data.orderId}`,
+    text: `We've received ${formatAmount(data.amount, data.currency)} for order #${data.orderId} (reference ${data.reference}).`,
+    sms: `Payment of ${formatAmount(data.amount, data.currency)} confirmed for order #${data.orderId}.`
+  }),
+  order_status_changed: data => ({
+    subject: `Order #${data.orderId} is ${data.toStatus}`,
+    text: [
+      data.supplierName
+        ? `Items from ${data.supplierName} in order #${data.orderId} are now ${data.toStatus}.`
+        : `Your order #${data.orderId} is now ${data.toStatus}.`,
+      data.trackingNumber ? `Tracking number: ${data.trackingNumber}.` : null,
+      data.note ? `Note: ${data.note}` : null
+    ].filter(Boolean).join("\n"),
+    sms: `Order #${data.orderId} is now ${data.toStatus}.${data.trackingNumber ? ` Tracking: ${data.trackingNumber}` : ""}`
+  }),
+  review_received: data => ({
+    subject: `New ${data.rating}-star review for ${data.productName}`,
+    text: `A customer rated ${data.productName} ${data.rating} out of 5.${data.comment ? `\n\n"${data.comment}"` : ""}`,
+    sms: `New ${data.rating}-star review for ${data.productName}.`
+  }),
+  product_launched: data => ({
+    subject: `${data.productName} is now available`,
+    text: `${data.productName}, which you asked to hear about, has just launched.`,
+    sms: `${data.productName} has just launched.`
+  })
+};
+
+export function renderNotification(type: NotificationType, data: Record<string, any>) {
+  return templates[type](data);
+}
+
+// Wait before the given (1-based) retry: 1 minute, doubling up to 6 hours
+export function retryDelayMs(attempts: number) {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+function addressFor(user: { email?: string | null; phone?: string | null }, channel: NotificationChannel) {
+  return channel === "email" ? user.email : user.phone;
+}
+
+// Deliver due notifications on every channel the recipient has switched on.
+// Channels that already went out are remembered, so a retry only resends the
+// ones that failed. After the last attempt a notification is left as failed.
+export async function deliverPendingNotifications(transports: NotificationTransports, now: Date = new Date()) {
+  // Claiming leases the batch, so two instances never deliver the same notification
+  const due = await notificationStorage.claimDueNotifications({ now, limit: BATCH_SIZE });
+  let deliveredCount = 0;
+
+  for (const notification of due) {
+    const user = await storage.getUser(notification.userId);
+    const preferences = {
+      ...DEFAULT_NOTIFICATION_PREFERENCES,
+      ...(await notificationStorage.getNotificationPreferences(notification.userId))
+    };
+
+    const muted = !user || preferences.mutedTypes.includes(notification.type);
+    const channels = muted ? [] : NOTIFICATION_CHANNELS.filter(channel =>
+      preferences[channel]
+      && transports[channel]
+      && addressFor(user, channel)
+      && !notification.deliveredChannels.includes(channel)
+    );
+
+    const message = renderNotification(notification.type, notification.data);
+    const deliveredChannels = [...notification.deliveredChannels];
+    const failures: string[] = [];
+
+    for (const channel of channels) {
+      try {
+        await transports[channel]!.send({
+          to: addressFor(user!, channel)!,
+          subject: message.subject,
+          text: channel === "sms" ? message.sms : message.text
+        });
+        deliveredChannels.push(channel);
+      } catch (error) {
+        failures.push(`${channel}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    if (failures.length === 0) {
+      await notificationStorage.markNotificationDelivered(notification.id, deliveredChannels);
+      deliveredCount++;
+      continue;
+    }
+
+    const attempts = notification.attempts + 1;
+    await notificationStorage.markNotificationFailed(notification.id, {
+      attempts,
+      deliveredChannels,
+      lastError: failures.join("; "),
+      // No next attempt means the notification has given up
+      nextAttemptAt: attempts < MAX_DELIVERY_ATTEMPTS ? new Date(now.getTime() + retryDelayMs(attempts)) : null
+    });
+  }
+
+  return deliveredCount;
+}
+
+let workerTimer: NodeJS.Timeout | null = null;
+
+export function startNotificationWorker(
+  transports: NotificationTransports,
+  intervalMs = Number(process.env.NOTIFICATION_INTERVAL_MS) || DEFAULT_INTERVAL_MS
+) {
+  if (workerTimer) {
+    return;
+  }
+
+  const tick = () => {
+    deliverPendingNotifications(transports).catch(error => {
+      console.error("Error delivering notifications:", error);
+    });
+  };
+
+  tick();
+  workerTimer = setInterval(tick, intervalMs);
+  // Don't keep the process alive just for the worker
+  workerTimer.unref();
+}
+
+export function stopNotificationWorker() {
+  if (workerTimer) {
+    clearInterval(workerTimer);
+    workerTimer = null;
+  }
+}
+
+// Notifications for a newly placed order: one for the customer and one per
+// supplier with items in it
+export function orderPlacedNotifications(
+  order: { id: number; customerId: number; totalAmount: number; currency: string },
+  items: { supplierId: number; quantity: number }[]
+): NotificationInput[] {
+  const supplierItemCounts = new Map<number, number>();
+  for (const item of items) {
+    supplierItemCounts.set(item.supplierId, (supplierItemCounts.get(item.supplierId) || 0) + item.quantity);
+  }
+
+  return [
+    {
+      userId: order.customerId,
+      type: "order_placed",
+      data: { orderId: order.id, totalAmount: order.totalAmount, currency: order.currency }
+    },
+    ...Array.from(supplierItemCounts, ([supplierId, itemCount]): NotificationInput => ({
+      userId: supplierId,
+      type: "order_received",
+      data: { orderId: order.id, itemCount }
+    }))
+  ];
+}
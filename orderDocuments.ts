@@ -0,0 +1,205 @@
+import PDFDocument from "pdfkit";
+
+// Prices in the store already include tax; the invoice shows the tax part of
+// the total at this rate. Zero leaves the tax line off.
+export const INVOICE_TAX_PERCENT = Number(process.env.INVOICE_TAX_PERCENT ?? 0);
+
+const STORE_NAME = process.env.STORE_NAME || "KuandorWear";
+
+export interface DocumentLine {
+  name: string;
+  sku: string | null;
+  size?: string | null;
+  color?: string | null;
+  quantity: number;
+  // Price paid per item, after the product discount (integer minor units)
+  unitPrice: number;
+}
+
+export interface InvoiceDocument {
+  invoiceNumber: string;
+  issuedAt: Date;
+  orderId: number;
+  orderDate: Date;
+  customerName: string | null;
+  currency: string;
+  lines: DocumentLine[];
+  // Amounts are integer minor units. productDiscount is already taken off the
+  // line prices and is only shown as a saving.
+  productDiscount: number;
+  shipping: number;
+  couponCode: string | null;
+  couponDiscount: number;
+  total: number;
+  refunded: number;
+  paymentReference: string | null;
+  paymentStatus: string;
+}
+
+export interface PackingSlipDocument {
+  orderId: number;
+  orderDate: Date;
+  supplierName: string | null;
+  fulfillmentStatus: string | null;
+  lines: DocumentLine[];
+}
+
+// Invoice numbers come from a gap-free sequence kept by storage
+export function formatInvoiceNumber(sequence: number, issuedAt: Date) {
+  return `INV-${issuedAt.getFullYear()}-${String(sequence).padStart(6, "0")}`;
+}
+
+// Tax contained in a tax-inclusive amount
+export function includedTax(amount: number, taxPercent = INVOICE_TAX_PERCENT) {
+  return taxPercent > 0 ? Math.round(amount * taxPercent / (100 + taxPercent)) : 0;
+}
+
+function formatMoney(amount: number, currency: string) {
+  const sign = amount < 0 ? "-" : "";
+  return `${sign}${currency} ${(Math.abs(amount) / 100).toFixed(2)}`;
+}
+
+function formatDate(date: Date) {
+  return new Date(date).toISOString().slice(0, 10);
+}
+
+function describeLine(line: DocumentLine) {
+  const options = [line.size, line.color].filter(Boolean).join(" / ");
+  return options ? `${line.name} (${options})` : line.name;
+}
+
+function renderPdf(draw: (doc: PDFKit.PDFDocument) => void): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: "A4", margin: 50 });
+    const chunks: Buffer[] = [];
+
+    doc.on("data", chunk => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    draw(doc);
+    doc.end();
+  });
+}
+
+// Draws one row of a table at fixed column positions
+function drawRow(doc: PDFKit.PDFDocument, cells: { text: string; x: number; width: number; align?: "left" | "right" }[]) {
+  const y = doc.y;
+  let height = 0;
+  for (const cell of cells) {
+    doc.text(cell.text, cell.x, y, { width: cell.width, align: cell.align || "left" });
+    height = Math.max(height, doc.y - y);
+    doc.y = y;
+  }
+  doc.x = doc.page.margins.left;
+  doc.y = y + height + 4;
+}
+
+function drawHeader(doc: PDFKit.PDFDocument, title: string, details: string[]) {
+  doc.fontSize(20).text(STORE_NAME);
+  doc.fontSize(14).text(title);
+  doc.moveDown(0.5);
+  doc.fontSize(10);
+  for (const detail of details) {
+    doc.text(detail);
+  }
+  doc.moveDown();
+}
+
+export function renderInvoicePdf(invoice: InvoiceDocument): Promise<Buffer> {
+  return renderPdf(doc => {
+    drawHeader(doc, "Invoice", [
+      `Invoice number: ${invoice.invoiceNumber}`,
+      `Issued: ${formatDate(invoice.issuedAt)}`,
+      `Order: #${invoice.orderId} placed ${formatDate(invoice.orderDate)}`,
+      ...(invoice.customerName ? [`Billed to: ${invoice.customerName}`] : [])
+    ]);
+
+    const money = (amount: number) => formatMoney(amount, invoice.currency);
+
+    doc.font("Helvetica-Bold");
+    drawRow(doc, [
+      { text: "Item", x: 50, width: 230 },
+      { text: "SKU", x: 285, width: 80 },
+      { text: "Qty", x: 370, width: 40, align: "right" },
+      { text: "Unit price", x: 415, width: 65, align: "right" },
+      { text: "Amount", x: 485, width: 60, align: "right" }
+    ]);
+    doc.font("Helvetica");
+
+    for (const line of invoice.lines) {
+      drawRow(doc, [
+        { text: describeLine(line), x: 50, width: 230 },
+        { text: line.sku || "", x: 285, width: 80 },
+        { text: String(line.quantity), x: 370, width: 40, align: "right" },
+        { text: money(line.unitPrice), x: 415, width: 65, align: "right" },
+        { text: money(line.unitPrice * line.quantity), x: 485, width: 60, align: "right" }
+      ]);
+    }
+
+    doc.moveDown();
+
+    const subtotal = invoice.lines.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0);
+    const totals: [string, string][] = [["Subtotal", money(subtotal)]];
+    if (invoice.shipping > 0) {
+      totals.push(["Shipping", money(invoice.shipping)]);
+    }
+    if (invoice.couponDiscount > 0) {
+      totals.push([`Coupon ${invoice.couponCode || ""}`.trim(), money(-invoice.couponDiscount)]);
+    }
+    totals.push(["Total", money(invoice.total)]);
+
+    const tax = includedTax(invoice.total);
+    if (tax > 0) {
+      totals.push([`Includes tax at ${INVOICE_TAX_PERCENT}%`, money(tax)]);
+    }
+    if (invoice.refunded > 0) {
+      totals.push(["Refunded", money(-invoice.refunded)]);
+    }
+
+    for (const [label, amount] of totals) {
+      drawRow(doc, [
+        { text: label, x: 285, width: 195, align: "right" },
+        { text: amount, x: 485, width: 60, align: "right" }
+      ]);
+    }
+
+    doc.moveDown();
+    if (invoice.productDiscount > 0) {
+      doc.text(`Product discounts saved you ${money(invoice.productDiscount)} on this order.`);
+    }
+    doc.text(`Payment status: ${invoice.paymentStatus}`);
+    if (invoice.paymentReference) {
+      doc.text(`Payment reference: ${invoice.paymentReference}`);
+    }
+  });
+}
+
+export function renderPackingSlipPdf(slip: PackingSlipDocument): Promise<Buffer> {
+  return renderPdf(doc => {
+    drawHeader(doc, "Packing slip", [
+      `Order: #${slip.orderId} placed ${formatDate(slip.orderDate)}`,
+      ...(slip.supplierName ? [`Supplier: ${slip.supplierName}`] : []),
+      ...(slip.fulfillmentStatus ? [`Fulfillment status: ${slip.fulfillmentStatus}`] : [])
+    ]);
+
+    doc.font("Helvetica-Bold");
+    drawRow(doc, [
+      { text: "Item", x: 50, width: 300 },
+      { text: "SKU", x: 355, width: 120 },
+      { text: "Qty", x: 480, width: 65, align: "right" }
+    ]);
+    doc.font("Helvetica");
+
+    for (const line of slip.lines) {
+      drawRow(doc, [
+        { text: describeLine(line), x: 50, width: 300 },
+        { text: line.sku || "", x: 355, width: 120 },
+        { text: String(line.quantity), x: 480, width: 65, align: "right" }
+      ]);
+    }
+
+    doc.moveDown();
+    doc.text(`Total items: ${slip.lines.reduce((sum, line) => sum + line.quantity, 0)}`);
+  });
+}
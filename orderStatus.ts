@@ -0,0 +1,103 @@
+export const ORDER_STATUSES = ["pending", "processing", "shipped", "delivered", "cancelled"] as const;
+export type OrderStatus = typeof ORDER_STATUSES[number];
+
+export type OrderActorRole = "admin" | "supplier" | "customer" | "system";
+
+// Payment statuses with customer money still captured on the order
+const CAPTURED_PAYMENT_STATUSES = ["paid", "partially_refunded"];
+
+// Allowed next statuses and who may make each move. "system" covers changes
+// made by the payment flow rather than a person.
+const orderTransitions: Record<OrderStatus, Partial<Record<OrderStatus, OrderActorRole[]>>> = {
+  pending: {
+    processing: ["admin", "system"],
+    cancelled: ["admin", "supplier", "system"]
+  },
+  processing: {
+    shipped: ["admin", "supplier"],
+    cancelled: ["admin", "supplier"]
+  },
+  shipped: {
+    delivered: ["admin", "supplier"]
+  },
+  delivered: {},
+  cancelled: {}
+};
+
+export interface OrderTransitionCheck {
+  allowed: boolean;
+  // HTTP status to answer with when the move is refused
+  statusCode?: 400 | 403;
+  message?: string;
+}
+
+export function isOrderStatus(status: unknown): status is OrderStatus {
+  return typeof status === "string" && (ORDER_STATUSES as readonly string[]).includes(status);
+}
+
+export function getAllowedTransitions(from: OrderStatus, role: OrderActorRole): OrderStatus[] {
+  const targets = orderTransitions[from] || {};
+  return (Object.keys(targets) as OrderStatus[]).filter(to => targets[to]!.includes(role));
+}
+
+export function checkOrderTransition(
+  order: { status: string; paymentStatus?: string | null },
+  to: unknown,
+  role: OrderActorRole
+): OrderTransitionCheck {
+  if (!isOrderStatus(to)) {
+    return { allowed: false, statusCode: 400, message: "Invalid order status" };
+  }
+
+  if (!isOrderStatus(order.status)) {
+    return { allowed: false, statusCode: 400, message: `Order has unknown status "${order.status}"` };
+  }
+
+  if (order.status === to) {
+    return { allowed: false, statusCode: 400, message: `Order is already ${to}` };
+  }
+
+  const allowedRoles = orderTransitions[order.status][to];
+  if (!allowedRoles) {
+    return { allowed: false, statusCode: 400, message: `Cannot move an order from ${order.status} to ${to}` };
+  }
+
+  if (!allowedRoles.includes(role)) {
+    return { allowed: false, statusCode: 403, message: `You can't move an order from ${order.status} to ${to}` };
+  }
+
+  // Cancelling a paid order needs a refund, which only admins can issue
+  if (to === "cancelled" && role === "supplier" && CAPTURED_PAYMENT_STATUSES.includes(order.paymentStatus ?? "")) {
+    return { allowed: false, statusCode: 403, message: "Suppliers can't cancel paid orders" };
+  }
+
+  return { allowed: true };
+}
+
+// Shipping progress is tracked per supplier fulfillment group; the order as a
+// whole can only be confirmed or cancelled directly.
+export const ORDER_LEVEL_STATUSES: OrderStatus[] = ["processing", "cancelled"];
+
+// An order's status summarises its fulfillment groups. Cancelled groups are
+// ignored unless every group was cancelled.
+export function deriveOrderStatus(groupStatuses: string[]): OrderStatus {
+  const activeStatuses = groupStatuses.filter(status => status !== "cancelled");
+
+  if (activeStatuses.length === 0) {
+    return groupStatuses.length > 0 ? "cancelled" : "pending";
+  }
+
+  if (activeStatuses.every(status => status === "delivered")) {
+    return "delivered";
+  }
+
+  if (activeStatuses.every(status => status === "shipped" || status === "delivered")) {
+    return "shipped";
+  }
+
+  if (activeStatuses.some(status => status !== "pending")) {
+    return "processing";
+  }
+
+  return "pending";
+}
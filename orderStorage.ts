@@ -0,0 +1,444 @@
+import { and, asc, eq, inArray, isNull, ne } from "drizzle-orm";
+import { orders, orderItems, type InsertOrder, type InsertOrderItem, type Order, type OrderItem } from "@shared/schema";
+import { db } from "./db";
+import { reserveStock, returnStock } from "./inventoryStorage";
+import {
+  DbTransaction,
+  invoices,
+  invoiceSequence,
+  orderFulfillments,
+  orderStatusHistory,
+  OrderFulfillment,
+  OrderStatusChange,
+  refunds,
+  Refund
+} from "./schemaExtensions";
+import { isSettledRefund, OPEN_REFUND_STATUSES, SETTLED_REFUND_STATUSES } from "./refunds";
+import { redeemPromotion, PromotionRedemption } from "./promotionStorage";
+import { StockMovementContext } from "./stock";
+import { queueNotifications } from "./notificationStorage";
+import type { NotificationInput } from "./notifications";
+import { deriveOrderStatus } from "./orderStatus";
+
+// Put up to the given quantities back in stock, skipping units that already
+// went back, and remember what was returned. A cancellation after a refund of
+// the same items (or the other way round) only returns each unit once.
+// Callers select the items FOR UPDATE, so concurrent cancellations and refunds
+// wait for each other and see the quantities already returned.
+async function restockItems(
+  tx: DbTransaction,
+  lines: { item: OrderItem; quantity: number }[],
+  movement: StockMovementContext
+) {
+  const returned = lines
+    .map(({ item, quantity }) => ({ item, quantity: Math.min(quantity, item.quantity - item.returnedQuantity) }))
+    .filter(line => line.quantity > 0);
+
+  await returnStock(tx, returned.map(line => ({
+    productId: line.item.productId,
+    variantId: line.item.variantId,
+    quantity: line.quantity
+  })), movement);
+  for (const line of returned) {
+    await tx
+      .update(orderItems)
+      .set({ returnedQuantity: line.item.returnedQuantity + line.quantity })
+      .where(eq(orderItems.id, line.item.id));
+  }
+}
+
+const wholeItems = (items: OrderItem[]) => items.map(item => ({ item, quantity: item.quantity }));
+
+const cancelMovement = (orderId: number, change: OrderStatusChange): StockMovementContext => ({
+  type: "cancel",
+  actorId: change.actorId ?? null,
+  actorRole: change.actorRole as StockMovementContext["actorRole"],
+  orderId,
+  note: change.note ?? null
+});
+
+// Lock the order row. Fulfillment group changes take it first, so changes to
+// one order's groups happen one after another.
+async function lockOrder(tx: DbTransaction, orderId: number) {
+  const [order] = await tx.select().from(orders).where(eq(orders.id, orderId)).for("update");
+  return order;
+}
+
+// Keep the order's status in line with its groups, read inside the caller's
+// transaction after the group change, with the order row locked
+async function syncOrderStatus(tx: DbTransaction, order: Order) {
+  const groups = await tx
+    .select({ status: orderFulfillments.status })
+    .from(orderFulfillments)
+    .where(eq(orderFulfillments.orderId, order.id));
+  const derivedStatus = deriveOrderStatus(groups.map(group => group.status));
+  if (derivedStatus === order.status) {
+    return order;
+  }
+
+  const [updatedOrder] = await tx
+    .update(orders)
+    .set({ status: derivedStatus })
+    .where(eq(orders.id, order.id))
+    .returning();
+  await tx.insert(orderStatusHistory).values({
+    orderId: order.id,
+    fromStatus: order.status,
+    toStatus: derivedStatus,
+    actorId: null,
+    actorRole: "system",
+    note: "Updated from supplier fulfillment status"
+  });
+  return updatedOrder;
+}
+
+export interface RefundRequest {
+  amount: number;
+  items: Refund["items"];
+  reason: string | null;
+  createdBy: number | null;
+}
+
+export class OrderStorage {
+  // Write the order with its items, reserve their stock (recorded as sale
+  // movements), and add one fulfillment group per supplier and the coupon
+  // redemption, in one transaction, together with the notifications built
+  // for the new order. reserveStock throws InsufficientStockError when a line is short, and
+  // redeemPromotion throws PromotionError when the coupon has run out; either
+  // rolls everything back: no stock is taken and no order is written.
+  async createOrderWithItems(
+    orderData: InsertOrder,
+    items: Omit<InsertOrderItem, "orderId">[],
+    redemption: PromotionRedemption | null = null,
+    notifications: (order: Order) => NotificationInput[] = () => []
+  ) {
+    return db.transaction(async tx => {
+      const [order] = await tx.insert(orders).values(orderData).returning();
+      await tx.insert(orderItems).values(items.map(item => ({ ...item, orderId: order.id })));
+      await reserveStock(tx, items, {
+        type: "sale",
+        actorId: order.customerId,
+        actorRole: "customer",
+        orderId: order.id
+      });
+
+      const supplierIds = Array.from(new Set(items.map(item => item.supplierId)));
+      await tx.insert(orderFulfillments).values(supplierIds.map(supplierId => ({
+        orderId: order.id,
+        supplierId,
+        status: order.status
+      })));
+
+      if (redemption) {
+        await redeemPromotion(tx, order.id, redemption);
+      }
+      await queueNotifications(tx, notifications(order));
+
+      return order;
+    });
+  }
+
+  async getOrderStatusHistory(orderId: number) {
+    return db
+      .select()
+      .from(orderStatusHistory)
+      .where(eq(orderStatusHistory.orderId, orderId))
+      .orderBy(asc(orderStatusHistory.createdAt), asc(orderStatusHistory.id));
+  }
+
+  // Change the order's status and record the change in its history together,
+  // queueing the notifications in the same transaction. Confirming an order
+  // moves its pending fulfillment groups along with it.
+  async updateOrderStatus(orderId: number, change: OrderStatusChange, notifications: NotificationInput[] = []) {
+    return db.transaction(async tx => {
+      const [order] = await tx
+        .update(orders)
+        .set({ status: change.toStatus })
+        .where(eq(orders.id, orderId))
+        .returning();
+      await tx.insert(orderStatusHistory).values({ ...change, orderId });
+      await queueNotifications(tx, notifications);
+
+      if (change.toStatus === "processing") {
+        await tx
+          .update(orderFulfillments)
+          .set({ status: "processing", updatedAt: new Date() })
+          .where(and(eq(orderFulfillments.orderId, orderId), eq(orderFulfillments.status, "pending")));
+      }
+
+      return order;
+    });
+  }
+
+  // Cancel the order and its open fulfillment groups, and put the items that
+  // weren't returned yet back in stock. The order row is locked first, so two
+  // cancellations of the same order can't both restock (or notify) it.
+  async cancelOrder(orderId: number, change: OrderStatusChange, notifications: NotificationInput[] = []) {
+    return db.transaction(async tx => {
+      const [order] = await tx.select().from(orders).where(eq(orders.id, orderId)).for("update");
+      if (!order || order.status === "cancelled") {
+        return order;
+      }
+
+      const items = await tx.select().from(orderItems).where(eq(orderItems.orderId, orderId)).for("update");
+      await restockItems(tx, wholeItems(items), cancelMovement(orderId, change));
+
+      await tx
+        .update(orderFulfillments)
+        .set({ status: "cancelled", updatedAt: new Date() })
+        .where(and(eq(orderFulfillments.orderId, orderId), ne(orderFulfillments.status, "cancelled")));
+
+      const [cancelledOrder] = await tx
+        .update(orders)
+        .set({ status: "cancelled" })
+        .where(eq(orders.id, orderId))
+        .returning();
+      await tx.insert(orderStatusHistory).values({ ...change, orderId });
+      await queueNotifications(tx, notifications);
+
+      return cancelledOrder;
+    });
+  }
+
+  async getOrderFulfillments(orderId: number) {
+    return db
+      .select()
+      .from(orderFulfillments)
+      .where(eq(orderFulfillments.orderId, orderId))
+      .orderBy(asc(orderFulfillments.supplierId));
+  }
+
+  // Update a fulfillment group, recording its status change (if any) in the
+  // order's history and queueing the notifications in the same transaction.
+  // The order's status is derived from its groups in that transaction too.
+  // Returns the group and the order.
+  async updateFulfillment(
+    orderId: number,
+    fulfillmentId: number,
+    updates: Partial<Omit<OrderFulfillment, "id" | "orderId" | "supplierId" | "createdAt">>,
+    statusChange: OrderStatusChange | null,
+    notifications: NotificationInput[] = []
+  ) {
+    return db.transaction(async tx => {
+      const order = await lockOrder(tx, orderId);
+      const [fulfillment] = await tx
+        .update(orderFulfillments)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(and(eq(orderFulfillments.id, fulfillmentId), eq(orderFulfillments.orderId, orderId)))
+        .returning();
+      if (!order || !fulfillment) {
+        return { fulfillment, order };
+      }
+
+      if (statusChange) {
+        await tx.insert(orderStatusHistory).values({ ...statusChange, orderId });
+        await queueNotifications(tx, notifications);
+      }
+
+      return { fulfillment, order: await syncOrderStatus(tx, order) };
+    });
+  }
+
+  // Cancel one supplier's group and return only that supplier's items to
+  // stock, then derive the order's status like updateFulfillment. The group
+  // row is locked so a repeated cancel can't restock twice.
+  async cancelFulfillment(
+    orderId: number,
+    fulfillmentId: number,
+    statusChange: OrderStatusChange,
+    notifications: NotificationInput[] = []
+  ) {
+    return db.transaction(async tx => {
+      const order = await lockOrder(tx, orderId);
+      const [fulfillment] = await tx
+        .select()
+        .from(orderFulfillments)
+        .where(and(eq(orderFulfillments.id, fulfillmentId), eq(orderFulfillments.orderId, orderId)))
+        .for("update");
+      if (!order || !fulfillment || fulfillment.status === "cancelled") {
+        return { fulfillment, order };
+      }
+
+      const items = await tx
+        .select()
+        .from(orderItems)
+        .where(and(eq(orderItems.orderId, fulfillment.orderId), eq(orderItems.supplierId, fulfillment.supplierId)))
+        .for("update");
+      await restockItems(tx, wholeItems(items), cancelMovement(fulfillment.orderId, statusChange));
+
+      const [cancelledFulfillment] = await tx
+        .update(orderFulfillments)
+        .set({ status: "cancelled", updatedAt: new Date() })
+        .where(eq(orderFulfillments.id, fulfillmentId))
+        .returning();
+      await tx.insert(orderStatusHistory).values({ ...statusChange, orderId });
+      await queueNotifications(tx, notifications);
+
+      return { fulfillment: cancelledFulfillment, order: await syncOrderStatus(tx, order) };
+    });
+  }
+
+  async getOrderRefunds(orderId: number) {
+    return db
+      .select()
+      .from(refunds)
+      .where(eq(refunds.orderId, orderId))
+      .orderBy(asc(refunds.createdAt), asc(refunds.id));
+  }
+
+  // Reserve a refund before the payment provider is called. The order row is
+  // locked while plan works out the refund against the items and the refunds
+  // that haven't failed, so two concurrent requests can't both refund the
+  // same items. plan throws to refuse the refund.
+  async reserveRefund(
+    orderId: number,
+    plan: (order: Order, items: OrderItem[], previousRefunds: Refund[]) => RefundRequest
+  ) {
+    return db.transaction(async tx => {
+      const [order] = await tx.select().from(orders).where(eq(orders.id, orderId)).for("update");
+      const items = await tx.select().from(orderItems).where(eq(orderItems.orderId, orderId));
+      const previousRefunds = await tx
+        .select()
+        .from(refunds)
+        .where(and(eq(refunds.orderId, orderId), ne(refunds.status, "failed")));
+
+      const [refund] = await tx
+        .insert(refunds)
+        .values({ ...plan(order, items, previousRefunds), orderId, status: "requested" })
+        .returning();
+      return refund;
+    });
+  }
+
+  // Record the provider's answer for a refund that is still open, from the
+  // refund call or from its webhook, whichever comes first. Only once the
+  // money is paid out ("processed") does the order's paymentStatus follow
+  // and the refunded quantities go back in stock, in one transaction; an
+  // accepted refund that fails later has nothing to undo.
+  async settleRefund(refundId: number, result: { providerRefundId: string | null; status: string }) {
+    return db.transaction(async tx => {
+      const [reserved] = await tx.select().from(refunds).where(eq(refunds.id, refundId));
+      if (!reserved) {
+        return reserved;
+      }
+
+      // Lock the order before the refund, in the same order as reserveRefund
+      await tx.select({ id: orders.id }).from(orders).where(eq(orders.id, reserved.orderId)).for("update");
+      const [refund] = await tx.select().from(refunds).where(eq(refunds.id, refundId)).for("update");
+      if (!OPEN_REFUND_STATUSES.includes(refund.status)) {
+        return refund;
+      }
+
+      const [settled] = await tx
+        .update(refunds)
+        .set({
+          providerRefundId: result.providerRefundId ?? refund.providerRefundId,
+          status: result.status,
+          updatedAt: new Date()
+        })
+        .where(eq(refunds.id, refundId))
+        .returning();
+      if (!isSettledRefund(settled)) {
+        return settled;
+      }
+
+      const items = await tx
+        .select()
+        .from(orderItems)
+        .where(eq(orderItems.orderId, settled.orderId))
+        .orderBy(asc(orderItems.id))
+        .for("update");
+      const lines = settled.items.flatMap(line => {
+        const item = items.find(orderItem => orderItem.id === line.orderItemId);
+        return item ? [{ item, quantity: line.quantity }] : [];
+      });
+      await restockItems(tx, lines, {
+        type: "refund",
+        actorId: settled.createdBy,
+        actorRole: "admin",
+        orderId: settled.orderId
+      });
+
+      // Fully refunded once settled refunds cover every item
+      const settledRefunds = await tx
+        .select()
+        .from(refunds)
+        .where(and(eq(refunds.orderId, settled.orderId), inArray(refunds.status, SETTLED_REFUND_STATUSES)));
+      const refundedQuantities = new Map<number, number>();
+      for (const line of settledRefunds.flatMap(entry => entry.items)) {
+        refundedQuantities.set(line.orderItemId, (refundedQuantities.get(line.orderItemId) || 0) + line.quantity);
+      }
+      const fullyRefunded = items.every(item => (refundedQuantities.get(item.id) || 0) >= item.quantity);
+
+      await tx
+        .update(orders)
+        .set({ paymentStatus: fullyRefunded ? "refunded" : "partially_refunded" })
+        .where(eq(orders.id, settled.orderId));
+
+      return settled;
+    });
+  }
+
+  // A refund the provider refused frees its quantities for another attempt
+  async failRefund(refundId: number) {
+    const [refund] = await db
+      .update(refunds)
+      .set({ status: "failed", updatedAt: new Date() })
+      .where(and(eq(refunds.id, refundId), eq(refunds.status, "requested")))
+      .returning();
+    return refund;
+  }
+
+  // The refund a provider webhook is about. The provider's refund id is only
+  // stored once the refund call returns, so a webhook that beats it is
+  // matched to the order's open refund of the same amount instead.
+  async findProviderRefund(orderId: number, providerRefundId: string, amount: number) {
+    const [byProviderId] = await db
+      .select()
+      .from(refunds)
+      .where(and(eq(refunds.orderId, orderId), eq(refunds.providerRefundId, providerRefundId)));
+    if (byProviderId) {
+      return byProviderId;
+    }
+
+    const [open] = await db
+      .select()
+      .from(refunds)
+      .where(and(
+        eq(refunds.orderId, orderId),
+        isNull(refunds.providerRefundId),
+        inArray(refunds.status, OPEN_REFUND_STATUSES),
+        eq(refunds.amount, amount)
+      ))
+      .orderBy(asc(refunds.createdAt), asc(refunds.id))
+      .limit(1);
+    return open;
+  }
+
+  // The order's invoice, issued with the next invoice number on first use.
+  // The counter row is locked before checking for an existing invoice, so a
+  // concurrent request for the same order waits and then reuses it instead
+  // of taking a second number.
+  async getOrCreateInvoice(orderId: number) {
+    const [existing] = await db.select().from(invoices).where(eq(invoices.orderId, orderId));
+    if (existing) {
+      return existing;
+    }
+
+    return db.transaction(async tx => {
+      const [counter] = await tx.select().from(invoiceSequence).where(eq(invoiceSequence.id, 1)).for("update");
+
+      const [issued] = await tx.select().from(invoices).where(eq(invoices.orderId, orderId));
+      if (issued) {
+        return issued;
+      }
+
+      const sequence = counter.lastValue + 1;
+      await tx.update(invoiceSequence).set({ lastValue: sequence }).where(eq(invoiceSequence.id, 1));
+      const [invoice] = await tx.insert(invoices).values({ orderId, sequence }).returning();
+      return invoice;
+    });
+  }
+}
+
+export const orderStorage = new OrderStorage();
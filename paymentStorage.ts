@@ -0,0 +1,88 @@
+import { and, eq, inArray, lt } from "drizzle-orm";
+import { orders } from "@shared/schema";
+import { db } from "./db";
+import { paymentEvents } from "./schemaExtensions";
+import { queueNotifications } from "./notificationStorage";
+import { PAYABLE_PAYMENT_STATUSES } from "./payments";
+import type { NotificationInput } from "./notifications";
+
+// A delivery that has held an event this long without finishing is assumed
+// to have died, and the next delivery may take the event over
+const STALE_CLAIM_MS = 5 * 60 * 1000;
+
+export type PaymentEventClaim = "claimed" | "processed" | "in_progress";
+
+export class PaymentStorage {
+  async getOrderByPaymentReference(reference: string) {
+    const [order] = await db.select().from(orders).where(eq(orders.paymentReference, reference));
+    return order;
+  }
+
+  // Mark the order paid and queue the payment notifications in one
+  // transaction. Only an order still awaiting payment is changed, so when the
+  // webhook and the verify call confirm the same payment at once, only one
+  // of them applies it, and a refunded order is never paid again. Returns
+  // undefined when nothing was changed.
+  async markOrderPaid(orderId: number, paymentReference: string, notifications: NotificationInput[]) {
+    return db.transaction(async tx => {
+      const [order] = await tx
+        .update(orders)
+        .set({ paymentStatus: "paid", paymentReference })
+        .where(and(eq(orders.id, orderId), inArray(orders.paymentStatus, PAYABLE_PAYMENT_STATUSES)))
+        .returning();
+      if (order) {
+        await queueNotifications(tx, notifications);
+      }
+      return order;
+    });
+  }
+
+  // Insert the event before applying it. The unique event id makes the insert
+  // the lock: only one delivery of an event can claim it.
+  async claimPaymentEvent(event: { eventId: string; event: string; reference: string | null; payload: unknown }): Promise<PaymentEventClaim> {
+    const [inserted] = await db
+      .insert(paymentEvents)
+      .values({ ...event, status: "processing" })
+      .onConflictDoNothing({ target: paymentEvents.eventId })
+      .returning({ id: paymentEvents.id });
+    if (inserted) {
+      return "claimed";
+    }
+
+    const [takenOver] = await db
+      .update(paymentEvents)
+      .set({ claimedAt: new Date() })
+      .where(and(
+        eq(paymentEvents.eventId, event.eventId),
+        eq(paymentEvents.status, "processing"),
+        lt(paymentEvents.claimedAt, new Date(Date.now() - STALE_CLAIM_MS))
+      ))
+      .returning({ id: paymentEvents.id });
+    if (takenOver) {
+      return "claimed";
+    }
+
+    const [existing] = await db
+      .select({ status: paymentEvents.status })
+      .from(paymentEvents)
+      .where(eq(paymentEvents.eventId, event.eventId));
+    return existing?.status === "processed" ? "processed" : "in_progress";
+  }
+
+  async completePaymentEvent(eventId: string) {
+    await db
+      .update(paymentEvents)
+      .set({ status: "processed", processedAt: new Date() })
+      .where(eq(paymentEvents.eventId, eventId));
+  }
+
+  // Give the event back when applying it failed, so the provider's retry can
+  // apply it again
+  async releasePaymentEvent(eventId: string) {
+    await db
+      .delete(paymentEvents)
+      .where(and(eq(paymentEvents.eventId, eventId), eq(paymentEvents.status, "processing")));
+  }
+}
+
+export const paymentStorage = new PaymentStorage();
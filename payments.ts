@@ -0,0 +1,246 @@
+import Paystack from "paystack-node";
+import crypto from "crypto";
+
+// Amounts handed to and returned from providers are always in the smallest
+// currency unit (kobo, pesewas, cents).
+export interface InitializePaymentParams {
+  amount: number;
+  email: string;
+  reference: string;
+  currency: string;
+  callbackUrl: string;
+  channels: string[];
+  // Paystack provider code (mtn, vod, atl) when paying with mobile money
+  mobileMoneyProvider?: string;
+  metadata: Record<string, any>;
+}
+
+export interface InitializedPayment {
+  authorizationUrl: string;
+  reference: string;
+}
+
+export type PaymentOutcome = "success" | "failed" | "abandoned" | "pending";
+
+// Order payment statuses a successful charge may move to "paid". A refunded
+// or partially refunded order has already been paid and stays as it is.
+export const PAYABLE_PAYMENT_STATUSES = ["pending", "failed"];
+
+export interface VerifiedPayment {
+  status: PaymentOutcome;
+  reference: string;
+  amount: number;
+  currency: string;
+  metadata: Record<string, any>;
+}
+
+export interface RefundParams {
+  reference: string;
+  // Omit to refund the full transaction amount
+  amount?: number;
+}
+
+export interface RefundResult {
+  refundId: string;
+  reference: string;
+  amount: number;
+  status: "pending" | "processed" | "failed";
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+  initialize(params: InitializePaymentParams): Promise<InitializedPayment>;
+  verify(reference: string): Promise<VerifiedPayment>;
+  refund(params: RefundParams): Promise<RefundResult>;
+  verifyWebhookSignature(payload: Buffer | string, signature: string | undefined): boolean;
+}
+
+export class PaymentProviderError extends Error {
+  constructor(message: string, public readonly details?: unknown) {
+    super(message);
+    this.name = "PaymentProviderError";
+  }
+}
+
+// Paystack signs webhook bodies with HMAC-SHA512 of the raw payload using the secret key
+function isValidHmacSignature(secret: string, payload: Buffer | string, signature: string | undefined) {
+  if (!signature) {
+    return false;
+  }
+
+  const expected = crypto.createHmac("sha512", secret).update(payload).digest("hex");
+  const expectedBuffer = Buffer.from(expected, "hex");
+  const signatureBuffer = Buffer.from(signature, "hex");
+
+  return expectedBuffer.length === signatureBuffer.length
+    && crypto.timingSafeEqual(expectedBuffer, signatureBuffer);
+}
+
+export class PaystackPaymentProvider implements PaymentProvider {
+  readonly name = "paystack";
+  private client: any;
+
+  constructor(private secretKey: string) {
+    this.client = new Paystack(secretKey);
+
+    if (!this.client || !this.client.transaction) {
+      throw new PaymentProviderError("Failed to initialize Paystack client properly");
+    }
+  }
+
+  async initialize(params: InitializePaymentParams): Promise<InitializedPayment> {
+    const result = await this.client.transaction.initialize({
+      amount: params.amount,
+      email: params.email,
+      reference: params.reference,
+      currency: params.currency,
+      callback_url: params.callbackUrl,
+      channels: params.channels,
+      ...(params.mobileMoneyProvider && {
+        mobile_money: { provider: params.mobileMoneyProvider }
+      }),
+      metadata: params.metadata
+    });
+
+    if (!result.body.status) {
+      throw new PaymentProviderError(result.body.message || "Failed to initialize payment", result.body);
+    }
+
+    return {
+      authorizationUrl: result.body.data.authorization_url,
+      reference: result.body.data.reference
+    };
+  }
+
+  async verify(reference: string): Promise<VerifiedPayment> {
+    const result = await this.client.transaction.verify({ reference });
+
+    if (!result.body.status) {
+      throw new PaymentProviderError(result.body.message || "Payment verification failed", result.body);
+    }
+
+    const data = result.body.data;
+    return {
+      status: data.status,
+      reference: data.reference,
+      amount: data.amount,
+      currency: data.currency,
+      metadata: data.metadata || {}
+    };
+  }
+
+  async refund(params: RefundParams): Promise<RefundResult> {
+    const result = await this.client.refund.create({
+      transaction: params.reference,
+      amount: params.amount
+    });
+
+    if (!result.body.status) {
+      throw new PaymentProviderError(result.body.message || "Refund failed", result.body);
+    }
+
+    const data = result.body.data;
+    return {
+      refundId: String(data.id),
+      reference: params.reference,
+      amount: data.amount,
+      status: data.status === "processed" ? "processed" : "pending"
+    };
+  }
+
+  verifyWebhookSignature(payload: Buffer | string, signature: string | undefined) {
+    return isValidHmacSignature(this.secretKey, payload, signature);
+  }
+}
+
+// Local stand-in for development and tests. It only confirms references it
+// issued itself, so a hand-crafted reference can never verify as paid.
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = "fake";
+  private transactions = new Map<string, VerifiedPayment & { refunded: number }>();
+
+  constructor(private webhookSecret: string = "fake-webhook-secret") {}
+
+  async initialize(params: InitializePaymentParams): Promise<InitializedPayment> {
+    this.transactions.set(params.reference, {
+      status: "success",
+      reference: params.reference,
+      amount: params.amount,
+      currency: params.currency,
+      metadata: params.metadata,
+      refunded: 0
+    });
+
+    const separator = params.callbackUrl.includes("?") ? "&" : "?";
+    return {
+      authorizationUrl: `${params.callbackUrl}${separator}reference=${encodeURIComponent(params.reference)}`,
+      reference: params.reference
+    };
+  }
+
+  async verify(reference: string): Promise<VerifiedPayment> {
+    const transaction = this.transactions.get(reference);
+    if (!transaction) {
+      throw new PaymentProviderError("Transaction reference not found");
+    }
+
+    const { refunded, ...payment } = transaction;
+    return payment;
+  }
+
+  async refund(params: RefundParams): Promise<RefundResult> {
+    const transaction = this.transactions.get(params.reference);
+    if (!transaction || transaction.status !== "success") {
+      throw new PaymentProviderError("Transaction reference not found");
+    }
+
+    const amount = params.amount ?? transaction.amount - transaction.refunded;
+    if (amount <= 0 || transaction.refunded + amount > transaction.amount) {
+      throw new PaymentProviderError("Refund amount exceeds the amount paid");
+    }
+
+    transaction.refunded += amount;
+    return {
+      refundId: `fake_refund_${crypto.randomBytes(6).toString("hex")}`,
+      reference: params.reference,
+      amount,
+      status: "processed"
+    };
+  }
+
+  verifyWebhookSignature(payload: Buffer | string, signature: string | undefined) {
+    return isValidHmacSignature(this.webhookSecret, payload, signature);
+  }
+}
+
+// PAYMENT_PROVIDER selects the implementation explicitly ("paystack" or "fake").
+// Without it, Paystack is used whenever PAYSTACK_SECRET_KEY is set, and the
+// fake only in development and test. Anything else refuses to start rather
+// than quietly accepting every payment. The fake is never used in production.
+export function createPaymentProvider(): PaymentProvider {
+  const environment = process.env.NODE_ENV;
+  const providerName = process.env.PAYMENT_PROVIDER
+    || (process.env.PAYSTACK_SECRET_KEY ? "paystack" : undefined)
+    || (environment === "development" || environment === "test" ? "fake" : undefined);
+
+  switch (providerName) {
+    case "paystack":
+      if (!process.env.PAYSTACK_SECRET_KEY) {
+        throw new PaymentProviderError("Missing PAYSTACK_SECRET_KEY environment variable");
+      }
+      return new PaystackPaymentProvider(process.env.PAYSTACK_SECRET_KEY);
+    case "fake":
+      if (environment === "production") {
+        throw new PaymentProviderError("The fake payment provider can't be used in production");
+      }
+      return new FakePaymentProvider(process.env.PAYMENT_WEBHOOK_SECRET);
+    case undefined:
+      throw new PaymentProviderError("No payment provider configured: set PAYMENT_PROVIDER or PAYSTACK_SECRET_KEY");
+    default:
+      throw new PaymentProviderError(`Unknown payment provider: ${providerName}`);
+  }
+}
+
+export function generatePaymentReference(orderId?: number | string) {
+  return `order_${orderId || 'temp'}_${Date.now()}_${crypto.randomBytes(4).toString("hex")}`;
+}
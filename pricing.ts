@@ -0,0 +1,177 @@
+import { storage } from "./storage";
+import { inventoryStorage } from "./inventoryStorage";
+import { STORE_CURRENCY } from "./currency";
+import { findVariant } from "./variants";
+
+export interface OrderLineInput {
+  productId: number;
+  variantId?: number;
+  quantity: number;
+  size?: string;
+  color?: string;
+}
+
+// All amounts are integer minor units of the store currency
+export interface PricedOrderLine {
+  productId: number;
+  variantId: number | null;
+  sku: string | null;
+  supplierId: number;
+  category: string;
+  name: string;
+  quantity: number;
+  size?: string;
+  color?: string;
+  unitPrice: number;
+  discountPercent: number;
+  // Unit price after the product discount, which is what the customer pays per item
+  finalUnitPrice: number;
+  lineSubtotal: number;
+  lineDiscount: number;
+  lineTotal: number;
+}
+
+// Flat shipping charged once per order, in minor units of the store currency
+export const SHIPPING_FEE = Number(process.env.SHIPPING_FEE ?? 0);
+
+export interface OrderPriceBreakdown {
+  currency: string;
+  items: PricedOrderLine[];
+  subtotal: number;
+  discount: number;
+  shipping: number;
+  // Items after their discounts, plus shipping
+  total: number;
+}
+
+export interface OrderPricingIssue {
+  productId: number;
+  reason: string;
+}
+
+export class OrderPricingError extends Error {
+  constructor(message: string, public readonly issues: OrderPricingIssue[]) {
+    super(message);
+    this.name = "OrderPricingError";
+  }
+}
+
+export type PricedLineResult =
+  | { item: PricedOrderLine; availableStock: number; issue?: undefined }
+  | { issue: OrderPricingIssue; item?: undefined };
+
+// Price one line from the catalog, or explain why it can't be bought.
+// availableStock is the stock of the chosen variant, or of the product.
+export async function priceLine(line: OrderLineInput): Promise<PricedLineResult> {
+  const productId = Number(line.productId);
+  const quantity = Number(line.quantity);
+
+  if (!Number.isInteger(quantity) || quantity <= 0) {
+    return { issue: { productId, reason: "Quantity must be a positive whole number" } };
+  }
+
+  const product = await storage.getProduct(productId);
+  if (!product) {
+    return { issue: { productId, reason: "Product not found" } };
+  }
+
+  if (product.comingSoon) {
+    return { issue: { productId, reason: "Product has not been released yet" } };
+  }
+
+  if (!product.isActive) {
+    return { issue: { productId, reason: "Product is no longer available" } };
+  }
+
+  if (product.currency !== STORE_CURRENCY) {
+    return { issue: { productId, reason: `Product is priced in ${product.currency}, not ${STORE_CURRENCY}` } };
+  }
+
+  // Products sold in variants are priced and stocked per size × color
+  const variants = await inventoryStorage.getProductVariants(product.id);
+  let variant = null;
+  if (variants.length > 0) {
+    variant = line.variantId !== undefined
+      ? variants.find(candidate => candidate.id === Number(line.variantId))
+      : findVariant(variants, line.size, line.color);
+
+    if (!variant) {
+      return { issue: { productId, reason: "Selected size and color are not available" } };
+    }
+  } else {
+    if (line.size && product.availableSizes?.length && !product.availableSizes.includes(line.size)) {
+      return { issue: { productId, reason: `Size ${line.size} is not available` } };
+    }
+
+    if (line.color && product.availableColors?.length && !product.availableColors.includes(line.color)) {
+      return { issue: { productId, reason: `Color ${line.color} is not available` } };
+    }
+  }
+
+  const unitPrice = variant?.price ?? product.price;
+  const discountPercent = Math.min(Math.max(product.discount || 0, 0), 100);
+  const finalUnitPrice = Math.round(unitPrice * (100 - discountPercent) / 100);
+  const lineSubtotal = unitPrice * quantity;
+  const lineTotal = finalUnitPrice * quantity;
+
+  return {
+    item: {
+      productId: product.id,
+      variantId: variant ? variant.id : null,
+      sku: variant ? variant.sku : null,
+      supplierId: product.supplierId,
+      category: product.category,
+      name: product.name,
+      quantity,
+      size: variant ? variant.size : line.size,
+      color: variant ? variant.color : line.color,
+      unitPrice,
+      discountPercent,
+      finalUnitPrice,
+      lineSubtotal,
+      lineDiscount: lineSubtotal - lineTotal,
+      lineTotal
+    },
+    availableStock: variant ? variant.stock : product.stock
+  };
+}
+
+export function summarizePricedLines(items: PricedOrderLine[]): OrderPriceBreakdown {
+  const subtotal = items.reduce((sum, item) => sum + item.lineSubtotal, 0);
+  const itemsTotal = items.reduce((sum, item) => sum + item.lineTotal, 0);
+  const shipping = items.length > 0 ? SHIPPING_FEE : 0;
+
+  return {
+    currency: STORE_CURRENCY,
+    items,
+    subtotal,
+    discount: subtotal - itemsTotal,
+    shipping,
+    total: itemsTotal + shipping
+  };
+}
+
+// Price every line from the catalog. Client-supplied prices and totals are ignored.
+export async function priceOrder(lines: OrderLineInput[]): Promise<OrderPriceBreakdown> {
+  if (!Array.isArray(lines) || lines.length === 0) {
+    throw new OrderPricingError("Order must contain at least one item", []);
+  }
+
+  const issues: OrderPricingIssue[] = [];
+  const items: PricedOrderLine[] = [];
+
+  for (const line of lines) {
+    const result = await priceLine(line);
+    if (result.issue) {
+      issues.push(result.issue);
+    } else {
+      items.push(result.item);
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new OrderPricingError("Some items in the order can't be purchased", issues);
+  }
+
+  return summarizePricedLines(items);
+}
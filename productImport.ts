@@ -0,0 +1,176 @@
+import ExcelJS from "exceljs";
+import { Readable } from "stream";
+import { z } from "zod";
+
+// Columns of the product sheet, in export order. Prices are integer minor
+// units like everywhere else; list columns are separated with "|".
+export const PRODUCT_SHEET_COLUMNS = [
+  "sku",
+  "supplierId",
+  "name",
+  "description",
+  "category",
+  "price",
+  "discount",
+  "stock",
+  "availableSizes",
+  "availableColors",
+  "imageUrls",
+  "isActive"
+] as const;
+
+const LIST_COLUMNS = ["availableSizes", "availableColors", "imageUrls"];
+const NUMBER_COLUMNS = ["supplierId", "price", "discount", "stock"];
+const BOOLEAN_COLUMNS = ["isActive"];
+
+// Spreadsheet apps run text starting with these as a formula
+const FORMULA_PREFIXES = ["=", "+", "-", "@"];
+
+export const PRODUCT_SHEET_FORMATS = ["csv", "xlsx"] as const;
+export type ProductSheetFormat = typeof PRODUCT_SHEET_FORMATS[number];
+
+export const PRODUCT_IMPORT_MAX_ROWS = 2000;
+
+export const productExportQuerySchema = z.object({
+  format: z.enum(PRODUCT_SHEET_FORMATS).default("csv"),
+  // Admins can narrow the export to one supplier
+  supplierId: z.coerce.number().int().positive().optional()
+});
+
+export class ProductImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProductImportError";
+  }
+}
+
+export interface ProductImportRow {
+  // Line number in the sheet, counting the header as line 1
+  line: number;
+  sku: string;
+  values: Record<string, unknown>;
+}
+
+export interface ProductImportRowError {
+  line: number;
+  sku: string | null;
+  errors: string[];
+}
+
+export function productSheetFormat(filename: string): ProductSheetFormat | null {
+  const extension = filename.toLowerCase().split(".").pop();
+  return extension === "csv" || extension === "xlsx" ? extension : null;
+}
+
+// Blank cells are left out so that an update only touches the columns that
+// were filled in. Anything that isn't a valid number or boolean is passed
+// through as-is for the product schema to reject.
+function parseCell(column: string, cell: string): unknown {
+  if (LIST_COLUMNS.includes(column)) {
+    return cell.split("|").map(value => value.trim()).filter(Boolean);
+  }
+
+  if (NUMBER_COLUMNS.includes(column)) {
+    const value = Number(cell);
+    return cell !== "" && Number.isFinite(value) ? value : cell;
+  }
+
+  if (BOOLEAN_COLUMNS.includes(column)) {
+    const value = cell.toLowerCase();
+    if (["true", "yes", "1"].includes(value)) return true;
+    if (["false", "no", "0"].includes(value)) return false;
+    return cell;
+  }
+
+  return cell;
+}
+
+async function loadWorkbook(buffer: Buffer, format: ProductSheetFormat) {
+  const workbook = new ExcelJS.Workbook();
+  try {
+    if (format === "csv") {
+      // Cells are kept as text; parseCell decides what each column holds
+      await workbook.csv.read(Readable.from(buffer), { map: (value: unknown) => value });
+    } else {
+      await workbook.xlsx.load(buffer);
+    }
+  } catch (error) {
+    throw new ProductImportError(`The file could not be read as ${format.toUpperCase()}`);
+  }
+  return workbook;
+}
+
+// Undo the quote writeProductSheet puts in front of formula-like text, so
+// that an exported sheet imports back unchanged
+function unescapeCell(cell: string) {
+  return cell.startsWith("'") && FORMULA_PREFIXES.includes(cell.charAt(1)) ? cell.slice(1) : cell;
+}
+
+// Read the first sheet of a CSV or XLSX upload into rows keyed by column.
+// Unknown columns are ignored; rows without any values are skipped.
+export async function readProductSheet(buffer: Buffer, format: ProductSheetFormat): Promise<ProductImportRow[]> {
+  const workbook = await loadWorkbook(buffer, format);
+  const sheet = workbook.worksheets[0];
+  if (!sheet) {
+    throw new ProductImportError("The file has no sheets");
+  }
+
+  if (sheet.rowCount - 1 > PRODUCT_IMPORT_MAX_ROWS) {
+    throw new ProductImportError(`Imports are limited to ${PRODUCT_IMPORT_MAX_ROWS} rows`);
+  }
+
+  // Columns are found by their header, in any order
+  const columnIndexes = new Map<string, number>();
+  sheet.getRow(1).eachCell((cell, index) => {
+    columnIndexes.set(cell.text.trim(), index);
+  });
+  const cellText = (row: ExcelJS.Row, column: string) => {
+    const index = columnIndexes.get(column);
+    return index ? unescapeCell(row.getCell(index).text.trim()) : "";
+  };
+
+  const rows: ProductImportRow[] = [];
+  for (let line = 2; line <= sheet.rowCount; line++) {
+    const row = sheet.getRow(line);
+    const values: Record<string, unknown> = {};
+    for (const column of PRODUCT_SHEET_COLUMNS) {
+      const cell = cellText(row, column);
+      if (cell !== "" && column !== "sku") {
+        values[column] = parseCell(column, cell);
+      }
+    }
+
+    const sku = cellText(row, "sku");
+    if (sku || Object.keys(values).length > 0) {
+      rows.push({ line, sku, values });
+    }
+  }
+
+  if (rows.length === 0) {
+    throw new ProductImportError("The file has no product rows");
+  }
+
+  return rows;
+}
+
+// Text that a spreadsheet app would run as a formula is written with a
+// leading quote, so an exported name like "=HYPERLINK(...)" stays text
+function sheetCell(value: unknown) {
+  const cell = Array.isArray(value) ? value.join("|") : value ?? "";
+  return typeof cell === "string" && FORMULA_PREFIXES.includes(cell.charAt(0)) ? `'${cell}` : cell;
+}
+
+export async function writeProductSheet(
+  products: Record<string, any>[],
+  format: ProductSheetFormat
+): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet("Products");
+  sheet.addRow([...PRODUCT_SHEET_COLUMNS]);
+  for (const product of products) {
+    sheet.addRow(PRODUCT_SHEET_COLUMNS.map(column => sheetCell(product[column])));
+  }
+
+  const data = format === "csv" ? await workbook.csv.writeBuffer() : await workbook.xlsx.writeBuffer();
+  return Buffer.from(data);
+}
@@ -0,0 +1,57 @@
+import { z } from "zod";
+
+export const PRODUCT_SORT_OPTIONS = ["relevance", "price_asc", "price_desc", "newest", "rating"] as const;
+
+// Comma separated query values (?sizes=M,L) or repeated ones (?sizes=M&sizes=L)
+const listParam = z
+  .union([z.string(), z.array(z.string())])
+  .transform(value => (Array.isArray(value) ? value : value.split(","))
+    .map(item => item.trim())
+    .filter(Boolean));
+
+const booleanParam = z.enum(["true", "false"]).transform(value => value === "true");
+
+// Query string accepted by GET /api/products. Prices are integer minor units.
+export const productSearchSchema = z.object({
+  q: z.string().trim().max(100).optional(),
+  category: z.string().optional(),
+  supplierId: z.coerce.number().int().positive().optional(),
+  comingSoon: booleanParam.optional(),
+  minPrice: z.coerce.number().int().min(0).optional(),
+  maxPrice: z.coerce.number().int().min(0).optional(),
+  sizes: listParam.optional(),
+  colors: listParam.optional(),
+  inStock: booleanParam.optional(),
+  sort: z.enum(PRODUCT_SORT_OPTIONS).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(24)
+}).refine(
+  query => query.minPrice === undefined || query.maxPrice === undefined || query.minPrice <= query.maxPrice,
+  { message: "minPrice can't be greater than maxPrice", path: ["minPrice"] }
+);
+
+export type ProductSearchQuery = z.infer<typeof productSearchSchema>;
+
+export interface ProductFacetCount {
+  value: string;
+  count: number;
+}
+
+// Counts for the storefront filter sidebar, computed over every product that
+// matches the query (not just the current page)
+export interface ProductSearchFacets {
+  categories: ProductFacetCount[];
+  sizes: ProductFacetCount[];
+  colors: ProductFacetCount[];
+  price: { min: number | null; max: number | null };
+  inStock: number;
+}
+
+export interface ProductSearchResult<T> {
+  items: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+  facets: ProductSearchFacets;
+}
@@ -0,0 +1,88 @@
+import { asc, eq, sql } from "drizzle-orm";
+import { db } from "./db";
+import { DbTransaction, promotionRedemptions, promotions } from "./schemaExtensions";
+import { PromotionError, PromotionInput, PromotionUsage } from "./promotions";
+
+export interface PromotionRedemption {
+  promotionId: number;
+  customerId: number;
+  discount: number;
+}
+
+async function countUsage(executor: typeof db | DbTransaction, promotionId: number, customerId: number | null): Promise<PromotionUsage> {
+  const [usage] = await executor
+    .select({
+      total: sql<number>`count(*)::int`,
+      byCustomer: customerId !== null
+        ? sql<number>`(count(*) filter (where ${promotionRedemptions.customerId} = ${customerId}))::int`
+        : sql<number>`0`
+    })
+    .from(promotionRedemptions)
+    .where(eq(promotionRedemptions.promotionId, promotionId));
+  return usage;
+}
+
+// Record a redemption inside the order transaction. The promotion row is
+// locked while its limits are checked again, so concurrent orders can't both
+// take the last use; a PromotionError rolls the order back.
+export async function redeemPromotion(tx: DbTransaction, orderId: number, redemption: PromotionRedemption) {
+  const [promotion] = await tx
+    .select()
+    .from(promotions)
+    .where(eq(promotions.id, redemption.promotionId))
+    .for("update");
+  if (!promotion || !promotion.isActive) {
+    throw new PromotionError("This code is no longer active");
+  }
+
+  const usage = await countUsage(tx, promotion.id, redemption.customerId);
+  if (promotion.usageLimit && usage.total >= promotion.usageLimit) {
+    throw new PromotionError("This code has reached its usage limit");
+  }
+  if (promotion.perCustomerLimit && usage.byCustomer >= promotion.perCustomerLimit) {
+    throw new PromotionError("You have already used this code");
+  }
+
+  await tx.insert(promotionRedemptions).values({ ...redemption, orderId });
+}
+
+export class PromotionStorage {
+  async getPromotions() {
+    return db.select().from(promotions).orderBy(asc(promotions.id));
+  }
+
+  async getPromotion(promotionId: number) {
+    const [promotion] = await db.select().from(promotions).where(eq(promotions.id, promotionId));
+    return promotion;
+  }
+
+  async getPromotionByCode(code: string) {
+    const [promotion] = await db.select().from(promotions).where(eq(promotions.code, code));
+    return promotion;
+  }
+
+  async createPromotion(promotion: PromotionInput) {
+    const [created] = await db.insert(promotions).values(promotion).returning();
+    return created;
+  }
+
+  async updatePromotion(promotionId: number, updates: Partial<PromotionInput>) {
+    const [updated] = await db.update(promotions).set(updates).where(eq(promotions.id, promotionId)).returning();
+    return updated;
+  }
+
+  async deletePromotion(promotionId: number) {
+    const deleted = await db
+      .delete(promotions)
+      .where(eq(promotions.id, promotionId))
+      .returning({ id: promotions.id });
+    return deleted.length > 0;
+  }
+
+  // How often a promotion was used overall and, given a customer, by them
+  async getPromotionUsage(promotionId: number, customerId: number | null) {
+    return countUsage(db, promotionId, customerId);
+  }
+}
+
+export const promotionStorage = new PromotionStorage();
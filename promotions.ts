@@ -0,0 +1,130 @@
+import { z } from "zod";
+import { OrderPriceBreakdown } from "./pricing";
+
+export const PROMOTION_TYPES = ["percentage", "fixed_amount", "free_shipping"] as const;
+
+// Amounts (value for fixed_amount, minSpend, maxDiscount) are integer minor units.
+// An empty scope list means the promotion applies to everything.
+const promotionFields = z.object({
+  code: z.string().trim().min(3).max(32).regex(/^[A-Za-z0-9_-]+$/).transform(code => code.toUpperCase()),
+  description: z.string().max(500).nullable().optional(),
+  type: z.enum(PROMOTION_TYPES),
+  value: z.number().int().min(0).default(0),
+  maxDiscount: z.number().int().positive().nullable().optional(),
+  minSpend: z.number().int().min(0).default(0),
+  categories: z.array(z.string()).default([]),
+  supplierIds: z.array(z.number().int().positive()).default([]),
+  usageLimit: z.number().int().positive().nullable().optional(),
+  perCustomerLimit: z.number().int().positive().nullable().optional(),
+  startsAt: z.coerce.date().nullable().optional(),
+  endsAt: z.coerce.date().nullable().optional(),
+  isActive: z.boolean().default(true)
+});
+
+export const promotionInputSchema = promotionFields.refine(
+  promotion => promotion.type !== "percentage" || (promotion.value > 0 && promotion.value <= 100),
+  { message: "Percentage promotions need a value between 1 and 100", path: ["value"] }
+).refine(
+  promotion => promotion.type !== "fixed_amount" || promotion.value > 0,
+  { message: "Fixed amount promotions need a positive value", path: ["value"] }
+).refine(
+  promotion => !promotion.startsAt || !promotion.endsAt || promotion.startsAt < promotion.endsAt,
+  { message: "Promotion must start before it ends", path: ["endsAt"] }
+);
+
+// The fields an edit changes. The edited promotion is checked again as a
+// whole with promotionInputSchema.
+export const promotionUpdateSchema = promotionFields.partial();
+
+export type PromotionInput = z.infer<typeof promotionInputSchema>;
+
+export interface Promotion extends PromotionInput {
+  id: number;
+}
+
+export interface PromotionUsage {
+  total: number;
+  byCustomer: number;
+}
+
+export interface AppliedPromotion {
+  promotionId: number;
+  code: string;
+  discount: number;
+  freeShipping: boolean;
+  // Order items the promotion was applied to
+  eligibleProductIds: number[];
+}
+
+export class PromotionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PromotionError";
+  }
+}
+
+// Work out what a promotion takes off an already priced order, or explain
+// why it can't be used.
+export function applyPromotion(
+  promotion: Promotion,
+  pricing: OrderPriceBreakdown,
+  usage: PromotionUsage,
+  now: Date = new Date()
+): AppliedPromotion {
+  if (!promotion.isActive) {
+    throw new PromotionError("This code is no longer active");
+  }
+
+  if (promotion.startsAt && now < promotion.startsAt) {
+    throw new PromotionError("This code isn't valid yet");
+  }
+
+  if (promotion.endsAt && now >= promotion.endsAt) {
+    throw new PromotionError("This code has expired");
+  }
+
+  if (promotion.usageLimit && usage.total >= promotion.usageLimit) {
+    throw new PromotionError("This code has reached its usage limit");
+  }
+
+  if (promotion.perCustomerLimit && usage.byCustomer >= promotion.perCustomerLimit) {
+    throw new PromotionError("You have already used this code");
+  }
+
+  // Minimum spend counts the items, not shipping
+  if (pricing.total - pricing.shipping < promotion.minSpend) {
+    throw new PromotionError(`Spend at least ${pricing.currency} ${(promotion.minSpend / 100).toFixed(2)} to use this code`);
+  }
+
+  const eligibleItems = pricing.items.filter(item =>
+    (promotion.categories.length === 0 || promotion.categories.includes(item.category))
+    && (promotion.supplierIds.length === 0 || promotion.supplierIds.includes(item.supplierId))
+  );
+
+  if (eligibleItems.length === 0) {
+    throw new PromotionError("This code doesn't apply to any items in your cart");
+  }
+
+  const eligibleTotal = eligibleItems.reduce((sum, item) => sum + item.lineTotal, 0);
+
+  let discount = 0;
+  if (promotion.type === "percentage") {
+    discount = Math.round(eligibleTotal * promotion.value / 100);
+    if (promotion.maxDiscount) {
+      discount = Math.min(discount, promotion.maxDiscount);
+    }
+  } else if (promotion.type === "fixed_amount") {
+    discount = Math.min(promotion.value, eligibleTotal);
+  } else if (promotion.type === "free_shipping") {
+    // Takes the order's shipping off the total
+    discount = pricing.shipping;
+  }
+
+  return {
+    promotionId: promotion.id,
+    code: promotion.code,
+    discount,
+    freeShipping: promotion.type === "free_shipping",
+    eligibleProductIds: Array.from(new Set(eligibleItems.map(item => item.productId)))
+  };
+}
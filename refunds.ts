@@ -0,0 +1,119 @@
+// "requested" refunds are reserved but not yet answered by the payment
+// provider, and "pending" ones accepted but not paid out yet. Only
+// "processed" refunds returned money; "failed" ones don't count.
+export const SETTLED_REFUND_STATUSES = ["processed"];
+export const OPEN_REFUND_STATUSES = ["requested", "pending"];
+
+export function isSettledRefund(refund: { status: string }) {
+  return SETTLED_REFUND_STATUSES.includes(refund.status);
+}
+
+export interface RefundLineRequest {
+  orderItemId: number;
+  quantity: number;
+}
+
+// Amounts are integer minor units, like every other amount on an order
+export interface RefundLine {
+  orderItemId: number;
+  productId: number;
+  variantId: number | null;
+  quantity: number;
+  amount: number;
+}
+
+export interface RefundPlan {
+  lines: RefundLine[];
+  amount: number;
+  // True when, after this refund, every item on the order has been refunded
+  fullyRefunded: boolean;
+}
+
+export class RefundRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RefundRequestError";
+  }
+}
+
+// Work out what a refund covers. Without requested lines, everything not yet
+// refunded is refunded. Quantities already refunded can't be refunded again.
+export function planRefund(
+  orderItems: { id: number; productId: number; variantId?: number | null; quantity: number; price: number }[],
+  previousRefunds: { items: { orderItemId: number; quantity: number }[] }[],
+  requestedLines?: RefundLineRequest[]
+): RefundPlan {
+  const refundedQuantities = new Map<number, number>();
+  for (const refund of previousRefunds) {
+    for (const line of refund.items) {
+      refundedQuantities.set(line.orderItemId, (refundedQuantities.get(line.orderItemId) || 0) + line.quantity);
+    }
+  }
+
+  const remainingQuantity = (item: { id: number; quantity: number }) =>
+    item.quantity - (refundedQuantities.get(item.id) || 0);
+
+  const requested = requestedLines && requestedLines.length > 0
+    ? requestedLines
+    : orderItems.map(item => ({ orderItemId: item.id, quantity: remainingQuantity(item) }));
+
+  const lines: RefundLine[] = [];
+  for (const request of requested) {
+    const item = orderItems.find(orderItem => orderItem.id === Number(request.orderItemId));
+    if (!item) {
+      throw new RefundRequestError(`Order item ${request.orderItemId} is not part of this order`);
+    }
+
+    const quantity = Number(request.quantity);
+    if (!Number.isInteger(quantity) || quantity < 0) {
+      throw new RefundRequestError(`Invalid refund quantity for order item ${item.id}`);
+    }
+
+    if (quantity > remainingQuantity(item)) {
+      throw new RefundRequestError(`Only ${remainingQuantity(item)} of order item ${item.id} can still be refunded`);
+    }
+
+    if (quantity > 0) {
+      lines.push({
+        orderItemId: item.id,
+        productId: item.productId,
+        variantId: item.variantId ?? null,
+        quantity,
+        amount: item.price * quantity
+      });
+      refundedQuantities.set(item.id, (refundedQuantities.get(item.id) || 0) + quantity);
+    }
+  }
+
+  if (lines.length === 0) {
+    throw new RefundRequestError("Nothing left to refund on this order");
+  }
+
+  return {
+    lines,
+    amount: lines.reduce((sum, line) => sum + line.amount, 0),
+    fullyRefunded: orderItems.every(item => remainingQuantity(item) === 0)
+  };
+}
+
+// Coupon discounts are taken off the order total rather than the item prices,
+// so the money returned is the refunded items' share of what was actually
+// paid. The last refund returns whatever is left, absorbing rounding.
+export function refundAmountForOrder(
+  plan: RefundPlan,
+  orderTotal: number,
+  orderItems: { quantity: number; price: number }[],
+  alreadyRefunded: number
+) {
+  const remaining = Math.max(orderTotal - alreadyRefunded, 0);
+  if (plan.fullyRefunded) {
+    return remaining;
+  }
+
+  const itemsTotal = orderItems.reduce((sum, item) => sum + item.price * item.quantity, 0);
+  if (itemsTotal <= 0) {
+    return 0;
+  }
+
+  return Math.min(Math.round(plan.amount * orderTotal / itemsTotal), remaining);
+}
@@ -0,0 +1,62 @@
+// Tracks product images uploaded before media assets were recorded. Each
+// image a product shows from the configured media storage becomes an asset
+// of the product's supplier, so it counts towards their quota and is cleaned
+// up once no product uses it. Files no product shows have no owner to charge
+// and are left alone; images whose file is gone are reported.
+//
+// Usage: npx tsx registerLegacyMedia.ts [--dry-run]
+import { storage } from "./storage";
+import { createMediaStorage } from "./mediaStorage";
+import { mediaAssetStorage } from "./mediaAssetStorage";
+
+async function registerLegacyMedia(options: { dryRun?: boolean } = {}) {
+  const mediaStorage = createMediaStorage();
+  const trackedUrls = new Set((await mediaAssetStorage.getMediaAssets()).flatMap(asset => asset.urls));
+
+  let registered = 0;
+  const missing: string[] = [];
+  for (const product of await storage.getProducts()) {
+    for (const url of product.imageUrls) {
+      const key = mediaStorage.keyFromUrl(url);
+      // Images hosted elsewhere, or already tracked (perhaps for another product)
+      if (!key || trackedUrls.has(url)) {
+        continue;
+      }
+      trackedUrls.add(url);
+
+      const sizeBytes = await mediaStorage.size(key);
+      if (sizeBytes === null) {
+        missing.push(url);
+        continue;
+      }
+
+      // Existing images are kept even when they take a supplier over quota
+      if (!options.dryRun) {
+        await mediaAssetStorage.createMediaAsset({
+          ownerId: product.supplierId,
+          keys: [key],
+          urls: [url],
+          sizeBytes,
+          renditions: {}
+        });
+      }
+      registered++;
+    }
+  }
+
+  return { registered, missing };
+}
+
+const args = process.argv.slice(2);
+registerLegacyMedia({ dryRun: args.includes("--dry-run") })
+  .then(result => {
+    console.log(`Registered ${result.registered} legacy images`);
+    for (const url of result.missing) {
+      console.warn(`Product image has no stored file: ${url}`);
+    }
+    process.exit(0);
+  })
+  .catch(error => {
+    console.error("Registering legacy media failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,44 @@
+export const REVIEW_STATUSES = ["pending", "approved", "rejected", "hidden"] as const;
+export type ReviewStatus = typeof REVIEW_STATUSES[number];
+
+// Reports from this many different customers send a published review back to moderation
+export const REVIEW_REPORT_THRESHOLD = 3;
+
+// Kept short on purpose: the heuristic only decides what a person looks at first
+const blockedWords = [
+  "fuck", "shit", "bitch", "bastard", "asshole", "dick", "cunt", "wanker", "idiot", "stupid"
+];
+
+const linkPattern = /(https?:\/\/|www\.|\b[a-z0-9-]+\.(com|net|org|io|co|gh|info|biz|xyz)\b)/i;
+const contactPattern = /([\w.+-]+@[\w-]+\.[\w.]+|\+?\d[\d\s-]{8,}\d)/;
+
+export interface ReviewScreening {
+  hold: boolean;
+  reasons: string[];
+}
+
+// Decide whether a new or edited review can go live straight away or should
+// wait for an admin
+export function screenReview(text: string | null | undefined): ReviewScreening {
+  const reasons: string[] = [];
+  const content = text || "";
+  const words = content.toLowerCase().split(/[^a-z]+/);
+
+  if (words.some(word => blockedWords.includes(word))) {
+    reasons.push("profanity");
+  }
+
+  if (linkPattern.test(content)) {
+    reasons.push("link");
+  }
+
+  if (contactPattern.test(content)) {
+    reasons.push("contact_details");
+  }
+
+  return { hold: reasons.length > 0, reasons };
+}
+
+export function isReviewStatus(status: unknown): status is ReviewStatus {
+  return typeof status === "string" && (REVIEW_STATUSES as readonly string[]).includes(status);
+}
@@ -0,0 +1,163 @@
+import { and, desc, eq, getTableColumns, gte, sql, type SQL } from "drizzle-orm";
+import { orderItems, orders, products, reviews, type InsertReview } from "@shared/schema";
+import { db } from "./db";
+import { orderFulfillments, reviewReports } from "./schemaExtensions";
+import { ReviewStatus } from "./reviewModeration";
+import { queueNotifications } from "./notificationStorage";
+import type { NotificationInput } from "./notifications";
+
+export interface ReviewFilters {
+  status?: ReviewStatus;
+  minReports?: number;
+  withReportCount?: boolean;
+}
+
+const reportCount = sql<number>`(select count(*)::int from ${reviewReports} where ${reviewReports.reviewId} = ${reviews.id})`;
+
+export class ReviewStorage {
+  // Newest first. The admin queue asks for each review's report count.
+  async getReviews(productId?: number, filters: ReviewFilters = {}) {
+    const conditions: (SQL | undefined)[] = [];
+    if (productId !== undefined) conditions.push(eq(reviews.productId, productId));
+    if (filters.status) conditions.push(eq(reviews.status, filters.status));
+    if (filters.minReports) conditions.push(gte(reportCount, filters.minReports));
+
+    return db
+      .select(filters.withReportCount ? { ...getTableColumns(reviews), reportCount } : getTableColumns(reviews))
+      .from(reviews)
+      .where(and(...conditions))
+      .orderBy(desc(reviews.createdAt), desc(reviews.id));
+  }
+
+  // The best rated reviews, newest first among equal ratings
+  async getTopReviews(limit: number, filters: Pick<ReviewFilters, "status"> = {}) {
+    return db
+      .select()
+      .from(reviews)
+      .where(filters.status ? eq(reviews.status, filters.status) : undefined)
+      .orderBy(desc(reviews.rating), desc(reviews.createdAt), desc(reviews.id))
+      .limit(limit);
+  }
+
+  async getReview(reviewId: number) {
+    const [review] = await db.select().from(reviews).where(eq(reviews.id, reviewId));
+    return review;
+  }
+
+  async getCustomerReview(customerId: number, productId: number) {
+    const [review] = await db
+      .select()
+      .from(reviews)
+      .where(and(eq(reviews.customerId, customerId), eq(reviews.productId, productId)));
+    return review;
+  }
+
+  // The notifications announce the review going live. They are queued with
+  // its first publication only: a review that is held, or approved again
+  // after being held on reports, doesn't announce itself twice. Returns
+  // undefined when the customer has already reviewed the product.
+  async createReview(review: InsertReview, notifications: NotificationInput[] = []) {
+    return db.transaction(async tx => {
+      const published = review.status === "approved";
+      const [created] = await tx
+        .insert(reviews)
+        .values({ ...review, publishedAt: published ? new Date() : null })
+        .onConflictDoNothing({ target: [reviews.customerId, reviews.productId] })
+        .returning();
+      if (created && published) {
+        await queueNotifications(tx, notifications);
+      }
+      return created;
+    });
+  }
+
+  async updateReview(reviewId: number, updates: Partial<InsertReview>, notifications: NotificationInput[] = []) {
+    return db.transaction(async tx => {
+      const [current] = await tx.select().from(reviews).where(eq(reviews.id, reviewId)).for("update");
+      if (!current) {
+        return current;
+      }
+
+      const firstPublished = updates.status === "approved" && !current.publishedAt;
+      const [review] = await tx
+        .update(reviews)
+        .set(firstPublished ? { ...updates, publishedAt: new Date() } : updates)
+        .where(eq(reviews.id, reviewId))
+        .returning();
+      if (firstPublished) {
+        await queueNotifications(tx, notifications);
+      }
+      return review;
+    });
+  }
+
+  // Whether the customer has received the product: the supplier's fulfillment
+  // group holding it was delivered
+  async hasDeliveredPurchase(customerId: number, productId: number) {
+    const [purchase] = await db
+      .select({ id: orderItems.id })
+      .from(orderItems)
+      .innerJoin(orders, eq(orders.id, orderItems.orderId))
+      .innerJoin(orderFulfillments, and(
+        eq(orderFulfillments.orderId, orderItems.orderId),
+        eq(orderFulfillments.supplierId, orderItems.supplierId)
+      ))
+      .where(and(
+        eq(orders.customerId, customerId),
+        eq(orderItems.productId, productId),
+        eq(orderFulfillments.status, "delivered")
+      ))
+      .limit(1);
+    return Boolean(purchase);
+  }
+
+  // Record a customer's report; reporting the same review again changes
+  // nothing. Returns the review's report count after this report.
+  async reportReview(reviewId: number, reporterId: number, reason: string | null) {
+    const [report] = await db
+      .insert(reviewReports)
+      .values({ reviewId, reporterId, reason })
+      .onConflictDoNothing()
+      .returning({ id: reviewReports.id });
+
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(reviewReports)
+      .where(eq(reviewReports.reviewId, reviewId));
+    return { reportCount: count, created: Boolean(report) };
+  }
+
+  async clearReviewReports(reviewId: number) {
+    await db.delete(reviewReports).where(eq(reviewReports.reviewId, reviewId));
+  }
+
+  // Recompute the product's rating aggregates from its approved reviews. One
+  // statement reads and writes them, so concurrent refreshes can't leave
+  // stale values.
+  async refreshProductRating(productId: number) {
+    const ofProduct = sql`from ${reviews} where ${reviews.productId} = ${productId} and ${reviews.status} = 'approved'`;
+
+    const [product] = await db
+      .update(products)
+      .set({
+        ratingAverage: sql`(select round(avg(${reviews.rating})::numeric, 2) ${ofProduct})`,
+        ratingCount: sql`(select count(*)::int ${ofProduct})`,
+        ratingHistogram: sql`(select jsonb_build_object(
+          '1', count(*) filter (where ${reviews.rating} = 1),
+          '2', count(*) filter (where ${reviews.rating} = 2),
+          '3', count(*) filter (where ${reviews.rating} = 3),
+          '4', count(*) filter (where ${reviews.rating} = 4),
+          '5', count(*) filter (where ${reviews.rating} = 5)
+        ) ${ofProduct})`
+      })
+      .where(eq(products.id, productId))
+      .returning({
+        ratingAverage: products.ratingAverage,
+        ratingCount: products.ratingCount,
+        ratingHistogram: products.ratingHistogram
+      });
+    return product;
+  }
+}
+
+export const reviewStorage = new ReviewStorage();
@@ -0,0 +1,340 @@
+import { pgTable, serial, integer, text, jsonb, numeric, timestamp, boolean, index, unique } from "drizzle-orm/pg-core";
+import type { CartItem } from "@shared/schema";
+import type { db } from "./db";
+import type { RefundLine } from "./refunds";
+import type { NotificationType } from "./notifications";
+import type { NotificationChannel } from "./notificationTransports";
+import type { PromotionInput } from "./promotions";
+import type { ReviewStatus } from "./reviewModeration";
+
+// The handle storage functions get inside db.transaction(), so that helpers
+// can take part in the caller's transaction
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Columns the migrations add to tables defined in @shared/schema. The shared
+// table definitions spread them in, e.g. pgTable("orders", { ...,
+// ...orderColumns }), so the Drizzle tables and the insert schemas derived
+// from them have the same columns as the database.
+export const orderColumns = {
+  // The provider's reference of the payment the order was initialized with
+  paymentReference: text("payment_reference"),
+  // Money is integer minor units of the order's currency, replacing the
+  // shared decimal columns
+  currency: text("currency").notNull(),
+  subtotal: integer("subtotal").notNull().default(0),
+  discountAmount: integer("discount_amount").notNull().default(0),
+  totalAmount: integer("total_amount").notNull(),
+  // The promotion redeemed at checkout and what it took off
+  promotionId: integer("promotion_id"),
+  couponCode: text("coupon_code"),
+  couponDiscount: integer("coupon_discount").notNull().default(0),
+  shippingAmount: integer("shipping_amount").notNull().default(0)
+};
+
+export const orderItemColumns = {
+  // The supplier whose fulfillment group ships the item
+  supplierId: integer("supplier_id"),
+  // Units already put back into stock, so none is returned twice
+  returnedQuantity: integer("returned_quantity").notNull().default(0),
+  price: integer("price").notNull(),
+  // The variant sold, for products that have variants
+  variantId: integer("variant_id")
+};
+
+export const productColumns = {
+  price: integer("price").notNull(),
+  currency: text("currency").notNull(),
+  // Aggregates of the product's approved reviews
+  ratingAverage: numeric("rating_average", { precision: 3, scale: 2 }),
+  ratingCount: integer("rating_count").notNull().default(0),
+  ratingHistogram: jsonb("rating_histogram").$type<Record<"1" | "2" | "3" | "4" | "5", number>>().notNull()
+    .default({ "1": 0, "2": 0, "3": 0, "4": 0, "5": 0 }),
+  // The supplier's own SKU, unique per supplier; sheet imports match on it
+  sku: text("sku")
+};
+
+export const reviewColumns = {
+  verifiedPurchase: boolean("verified_purchase").notNull().default(false),
+  // Only approved reviews are shown and counted in the rating
+  status: text("status").$type<ReviewStatus>().notNull().default("approved"),
+  moderationNote: text("moderation_note"),
+  moderatedBy: integer("moderated_by"),
+  moderatedAt: timestamp("moderated_at"),
+  // When the review first went live; it announces itself only then
+  publishedAt: timestamp("published_at")
+};
+
+export const inventoryColumns = {
+  // Stock at or below this opens a low-stock alert; null turns alerts off
+  reorderThreshold: integer("reorder_threshold")
+};
+
+// Tables added on top of @shared/schema. Each one is created by the matching
+// file in migrations/.
+
+// Paystack webhook events by event id. The row is claimed before the event is
+// applied, so concurrent deliveries of the same event can't both apply it.
+export const paymentEvents = pgTable("payment_events", {
+  id: serial("id").primaryKey(),
+  eventId: text("event_id").notNull().unique(),
+  event: text("event").notNull(),
+  reference: text("reference"),
+  payload: jsonb("payload").notNull(),
+  // "processing" while a delivery is applying it, "processed" once done
+  status: text("status").notNull().default("processing"),
+  claimedAt: timestamp("claimed_at").defaultNow().notNull(),
+  processedAt: timestamp("processed_at")
+});
+
+// Every status change of an order or of one supplier's fulfillment group,
+// with who made it. supplierId is null for order-level changes.
+export const orderStatusHistory = pgTable("order_status_history", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id").notNull(),
+  supplierId: integer("supplier_id"),
+  fromStatus: text("from_status").notNull(),
+  toStatus: text("to_status").notNull(),
+  actorId: integer("actor_id"),
+  actorRole: text("actor_role").notNull(),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+}, table => ({
+  orderIdx: index("order_status_history_order_idx").on(table.orderId)
+}));
+
+export type OrderStatusChange = Omit<typeof orderStatusHistory.$inferInsert, "id" | "orderId" | "createdAt">;
+
+// One group per supplier in an order, shipped and tracked on its own
+export const orderFulfillments = pgTable("order_fulfillments", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id").notNull(),
+  supplierId: integer("supplier_id").notNull(),
+  status: text("status").notNull().default("pending"),
+  trackingNumber: text("tracking_number"),
+  shippedAt: timestamp("shipped_at"),
+  deliveredAt: timestamp("delivered_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+}, table => ({
+  orderSupplier: unique("order_fulfillments_order_supplier_key").on(table.orderId, table.supplierId)
+}));
+
+export type OrderFulfillment = typeof orderFulfillments.$inferSelect;
+
+// Refunds of an order. A refund is reserved as "requested" before the payment
+// provider is called, then settled with the provider's answer: "pending" or
+// "processed" once the money is on its way, "failed" when the provider refused.
+export const refunds = pgTable("refunds", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id").notNull(),
+  amount: integer("amount").notNull(),
+  items: jsonb("items").$type<RefundLine[]>().notNull(),
+  reason: text("reason"),
+  providerRefundId: text("provider_refund_id"),
+  status: text("status").notNull().default("requested"),
+  createdBy: integer("created_by"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+}, table => ({
+  orderIdx: index("refunds_order_idx").on(table.orderId)
+}));
+
+export type Refund = typeof refunds.$inferSelect;
+
+// Size × color combinations of a product, each with its own SKU, optional
+// price and stock. The product's stock is the sum of its variants' stock.
+export const productVariants = pgTable("product_variants", {
+  id: serial("id").primaryKey(),
+  productId: integer("product_id").notNull(),
+  size: text("size").notNull(),
+  color: text("color").notNull(),
+  sku: text("sku").notNull(),
+  price: integer("price"),
+  stock: integer("stock").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+}, table => ({
+  productOption: unique("product_variants_product_option_key").on(table.productId, table.size, table.color),
+  productSku: unique("product_variants_product_sku_key").on(table.productId, table.sku)
+}));
+
+export type ProductVariant = typeof productVariants.$inferSelect;
+
+// Customers waiting for a coming-soon product. notifiedAt is set in the same
+// transaction that queues their launch notification.
+export const productWaitlist = pgTable("product_waitlist", {
+  id: serial("id").primaryKey(),
+  productId: integer("product_id").notNull(),
+  customerId: integer("customer_id").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  notifiedAt: timestamp("notified_at")
+}, table => ({
+  productCustomer: unique("product_waitlist_product_customer_key").on(table.productId, table.customerId)
+}));
+
+// Outbox of notifications waiting to be sent
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  type: text("type").$type<NotificationType>().notNull(),
+  data: jsonb("data").$type<Record<string, any>>().notNull(),
+  // "pending" until every channel went out ("delivered") or the last
+  // attempt failed ("failed")
+  status: text("status").notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  deliveredChannels: text("delivered_channels").array().$type<NotificationChannel[]>().notNull().default([]),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow(),
+  // Set while a worker holds the notification, so no other worker claims it
+  leasedUntil: timestamp("leased_until"),
+  lastError: text("last_error"),
+  deliveredAt: timestamp("delivered_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+}, table => ({
+  dueIdx: index("notifications_due_idx").on(table.status, table.nextAttemptAt)
+}));
+
+export type Notification = typeof notifications.$inferSelect;
+
+// Missing rows mean DEFAULT_NOTIFICATION_PREFERENCES
+export const notificationPreferences = pgTable("notification_preferences", {
+  userId: integer("user_id").primaryKey(),
+  email: boolean("email").notNull(),
+  sms: boolean("sms").notNull(),
+  mutedTypes: text("muted_types").array().$type<NotificationType[]>().notNull().default([]),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+});
+
+// Uploaded images: every stored rendition's key and public URL, and the
+// bytes they take up, which count towards the owner's quota
+export const mediaAssets = pgTable("media_assets", {
+  id: serial("id").primaryKey(),
+  ownerId: integer("owner_id").notNull(),
+  keys: text("keys").array().notNull(),
+  urls: text("urls").array().notNull(),
+  sizeBytes: integer("size_bytes").notNull(),
+  renditions: jsonb("renditions").$type<Record<string, unknown>>().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+}, table => ({
+  ownerIdx: index("media_assets_owner_idx").on(table.ownerId)
+}));
+
+export type InsertMediaAsset = Omit<typeof mediaAssets.$inferInsert, "id" | "createdAt">;
+
+// Carts of visitors who haven't logged in, keyed by the id in their cookie
+export const guestCarts = pgTable("guest_carts", {
+  id: text("id").primaryKey(),
+  items: jsonb("items").$type<CartItem[]>().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+});
+
+// Coupon codes. Amounts are integer minor units; empty scope lists mean the
+// promotion applies to everything.
+export const promotions = pgTable("promotions", {
+  id: serial("id").primaryKey(),
+  code: text("code").notNull().unique(),
+  description: text("description"),
+  type: text("type").$type<PromotionInput["type"]>().notNull(),
+  value: integer("value").notNull().default(0),
+  maxDiscount: integer("max_discount"),
+  minSpend: integer("min_spend").notNull().default(0),
+  categories: text("categories").array().notNull().default([]),
+  supplierIds: integer("supplier_ids").array().notNull().default([]),
+  usageLimit: integer("usage_limit"),
+  perCustomerLimit: integer("per_customer_limit"),
+  startsAt: timestamp("starts_at"),
+  endsAt: timestamp("ends_at"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+});
+
+// One row per order that used a promotion, written in the order transaction
+export const promotionRedemptions = pgTable("promotion_redemptions", {
+  id: serial("id").primaryKey(),
+  promotionId: integer("promotion_id").notNull(),
+  orderId: integer("order_id").notNull().unique(),
+  customerId: integer("customer_id").notNull(),
+  discount: integer("discount").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+}, table => ({
+  promotionCustomerIdx: index("promotion_redemptions_promotion_customer_idx").on(table.promotionId, table.customerId)
+}));
+
+// Customer reports of a review, one per customer. Approving the review clears
+// them, so later reports count from zero.
+export const reviewReports = pgTable("review_reports", {
+  id: serial("id").primaryKey(),
+  reviewId: integer("review_id").notNull(),
+  reporterId: integer("reporter_id").notNull(),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+}, table => ({
+  reviewReporterKey: unique("review_reports_review_reporter_key").on(table.reviewId, table.reporterId)
+}));
+
+// Money paid out to a supplier against their earnings
+export const payouts = pgTable("payouts", {
+  id: serial("id").primaryKey(),
+  supplierId: integer("supplier_id").notNull(),
+  amount: integer("amount").notNull(),
+  reference: text("reference"),
+  note: text("note"),
+  createdBy: integer("created_by"),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+}, table => ({
+  supplierIdx: index("payouts_supplier_idx").on(table.supplierId, table.createdAt)
+}));
+
+export type InsertPayout = Omit<typeof payouts.$inferInsert, "id" | "createdAt">;
+
+// Every change of a product's (or a variant's) stock, with the signed delta
+// and the stock it left behind
+export const stockMovements = pgTable("stock_movements", {
+  id: serial("id").primaryKey(),
+  productId: integer("product_id").notNull(),
+  variantId: integer("variant_id"),
+  type: text("type").notNull(),
+  delta: integer("delta").notNull(),
+  stockAfter: integer("stock_after").notNull(),
+  orderId: integer("order_id"),
+  actorId: integer("actor_id"),
+  actorRole: text("actor_role").notNull(),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+}, table => ({
+  productIdx: index("stock_movements_product_idx").on(table.productId, table.id)
+}));
+
+export type StockMovement = typeof stockMovements.$inferSelect;
+
+// Opened when a product's stock falls to its reorder threshold and resolved
+// when it climbs back above it. A product has at most one open alert.
+export const lowStockAlerts = pgTable("low_stock_alerts", {
+  id: serial("id").primaryKey(),
+  productId: integer("product_id").notNull(),
+  supplierId: integer("supplier_id").notNull(),
+  stock: integer("stock").notNull(),
+  reorderThreshold: integer("reorder_threshold").notNull(),
+  status: text("status").notNull().default("open"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  resolvedAt: timestamp("resolved_at"),
+  // When the alert was pushed to the supplier over live events
+  announcedAt: timestamp("announced_at")
+}, table => ({
+  supplierStatusIdx: index("low_stock_alerts_supplier_status_idx").on(table.supplierId, table.status)
+}));
+
+// One invoice per order, numbered from invoiceSequence without gaps
+export const invoices = pgTable("invoices", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id").notNull().unique(),
+  sequence: integer("sequence").notNull().unique(),
+  issuedAt: timestamp("issued_at").defaultNow().notNull()
+});
+
+// A single row holding the last invoice number issued. Unlike a Postgres
+// sequence, its increment rolls back with the transaction, so no number is
+// skipped.
+export const invoiceSequence = pgTable("invoice_sequence", {
+  id: integer("id").primaryKey(),
+  lastValue: integer("last_value").notNull()
+});
@@ -0,0 +1,66 @@
+import { z } from "zod";
+import type { OrderActorRole } from "./orderStatus";
+
+export interface StockShortage {
+  productId: number;
+  // Set when the short line is a variant of the product
+  variantId?: number;
+  requested: number;
+  available: number;
+}
+
+// Thrown by storage when an order can't reserve every line. Nothing is
+// reserved in that case: the whole order is rolled back.
+export class InsufficientStockError extends Error {
+  constructor(public readonly shortages: StockShortage[]) {
+    super("Insufficient stock for some items");
+    this.name = "InsufficientStockError";
+  }
+}
+
+// Every stock change is stored as a movement with its signed delta and the
+// stock it left behind. Sales, refunds and cancellations are recorded by
+// storage as part of the order transaction that moves the stock.
+export const STOCK_MOVEMENT_TYPES = ["sale", "adjustment", "restock", "refund", "cancel"] as const;
+export type StockMovementType = typeof STOCK_MOVEMENT_TYPES[number];
+
+// Types a supplier can pick when setting stock by hand
+export const MANUAL_STOCK_MOVEMENT_TYPES: StockMovementType[] = ["adjustment", "restock"];
+
+export interface StockMovementContext {
+  type: StockMovementType;
+  actorId: number | null;
+  actorRole: OrderActorRole;
+  orderId?: number | null;
+  note?: string | null;
+}
+
+export function isStockMovementType(type: unknown): type is StockMovementType {
+  return typeof type === "string" && (STOCK_MOVEMENT_TYPES as readonly string[]).includes(type);
+}
+
+// A product without a reorder threshold never raises low-stock alerts
+export function isLowStock(stock: number, reorderThreshold: number | null | undefined) {
+  return reorderThreshold !== null && reorderThreshold !== undefined && stock <= reorderThreshold;
+}
+
+export const stockMovementsQuerySchema = z.object({
+  type: z.enum(STOCK_MOVEMENT_TYPES).optional(),
+  variantId: z.coerce.number().int().positive().optional(),
+  // Movements are returned newest first; pass the last id seen to page back
+  before: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50)
+});
+
+export const reorderThresholdSchema = z.object({
+  // null switches low-stock alerts off for the product
+  reorderThreshold: z.number().int().min(0).nullable()
+});
+
+export const LOW_STOCK_ALERT_STATUSES = ["open", "resolved", "all"] as const;
+
+export const lowStockAlertsQuerySchema = z.object({
+  status: z.enum(LOW_STOCK_ALERT_STATUSES).default("open"),
+  // Admins can narrow the feed to one supplier
+  supplierId: z.coerce.number().int().positive().optional()
+});
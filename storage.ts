@@ -8,13 +8,99 @@ import {
   insertOrderItemSchema,
   loginSchema,
   CartItem,
+  type InsertProduct,
   insertReviewSchema // Added import for review schema
 } from "@shared/schema";
 import { ZodError } from "zod";
-import Paystack from "paystack-node";
+import {
+  createPaymentProvider,
+  generatePaymentReference,
+  PaymentProviderError,
+  PAYABLE_PAYMENT_STATUSES,
+  VerifiedPayment
+} from "./payments";
+import { priceOrder, OrderPricingError, OrderPriceBreakdown } from "./pricing";
+import {
+  InsufficientStockError,
+  MANUAL_STOCK_MOVEMENT_TYPES,
+  isLowStock,
+  stockMovementsQuerySchema,
+  reorderThresholdSchema,
+  lowStockAlertsQuerySchema
+} from "./stock";
+import {
+  checkOrderTransition,
+  ORDER_LEVEL_STATUSES,
+  OrderActorRole
+} from "./orderStatus";
+import { planRefund, refundAmountForOrder, isSettledRefund, RefundRequestError } from "./refunds";
+import { STORE_CURRENCY, getMobileMoneyProvider, isMinorUnitAmount } from "./currency";
+import { productSearchSchema } from "./productSearch";
+import { productVariantsInputSchema, findVariantIssues } from "./variants";
+import { startLaunchScheduler, stopLaunchScheduler } from "./launchScheduler";
+import { processProductImage, ImageProcessingError } from "./imageProcessing";
+import { createMediaStorage, LocalMediaStorage, LOCAL_UPLOAD_ROOT } from "./mediaStorage";
+import { MEDIA_QUOTA_BYTES, startMediaCleanup, stopMediaCleanup } from "./mediaCleanup";
+import {
+  priceCart,
+  getGuestCartId,
+  createGuestCartId,
+  GUEST_CART_COOKIE,
+  GUEST_CART_MAX_AGE_MS
+} from "./cart";
+import { applyPromotion, promotionInputSchema, promotionUpdateSchema, PromotionError } from "./promotions";
+import { screenReview, isReviewStatus, REVIEW_REPORT_THRESHOLD } from "./reviewModeration";
+import { analyticsQuerySchema, isRevenueOrder } from "./analytics";
+import {
+  summarizeEarnings,
+  earningsQuerySchema,
+  payoutInputSchema,
+  EARNING_PAYMENT_STATUSES,
+  PLATFORM_COMMISSION_PERCENT
+} from "./earnings";
+import {
+  readProductSheet,
+  writeProductSheet,
+  productSheetFormat,
+  productExportQuerySchema,
+  ProductImportError,
+  ProductImportRowError
+} from "./productImport";
+import {
+  renderInvoicePdf,
+  renderPackingSlipPdf,
+  formatInvoiceNumber,
+  DocumentLine
+} from "./orderDocuments";
+import {
+  startNotificationWorker,
+  stopNotificationWorker,
+  orderPlacedNotifications,
+  notificationPreferencesSchema,
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  NotificationInput
+} from "./notifications";
+import { createNotificationTransports } from "./notificationTransports";
+import {
+  subscribeToLiveEvents,
+  publishLiveEvent,
+  startLiveEvents,
+  stopLiveEvents,
+  LiveEvent,
+  LiveEventAudience
+} from "./liveEvents";
+import { paymentStorage } from "./paymentStorage";
+import { orderStorage } from "./orderStorage";
+import { catalogStorage } from "./catalogStorage";
+import { inventoryStorage } from "./inventoryStorage";
+import { mediaAssetStorage } from "./mediaAssetStorage";
+import { cartStorage } from "./cartStorage";
+import { promotionStorage } from "./promotionStorage";
+import { reviewStorage } from "./reviewStorage";
+import { analyticsStorage } from "./analyticsStorage";
+import { earningsStorage } from "./earningsStorage";
+import { notificationStorage } from "./notificationStorage";
 import multer from "multer";
-import path from "path";
-import fs from "fs-extra";
 
 declare global {
   namespace Express {
@@ -24,38 +110,27 @@ declare global {
   }
 }
 
+declare module "http" {
+  interface IncomingMessage {
+    rawBody: unknown;
+  }
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Setup authentication
   setupAuth(app);
 
-  // Initialize Paystack API client
-  if (!process.env.PAYSTACK_SECRET_KEY) {
-    console.error("Missing PAYSTACK_SECRET_KEY environment variable");
-  }
-  const paystackClient = new Paystack(process.env.PAYSTACK_SECRET_KEY || "");
-
-  // Check if Paystack client is properly initialized
-  if (!paystackClient || !paystackClient.transaction) {
-    console.error("Failed to initialize Paystack client properly");
-  }
+  // Payment provider is chosen by configuration (Paystack in production,
+  // the local fake provider in development and tests)
+  const paymentProvider = createPaymentProvider();
   
+  // Uploaded media goes to local disk or an S3-compatible bucket, chosen by MEDIA_STORAGE
+  const mediaStorage = createMediaStorage();
+
   // Configure multer for image upload
-  // Ensure upload directory exists
-  const uploadDir = path.join(process.cwd(), 'uploads', 'products');
-  if (!fs.existsSync(uploadDir)) {
-    fs.mkdirSync(uploadDir, { recursive: true });
-  }
-  
-  const multerStorage = multer.diskStorage({
-    destination: (req, file, cb) => {
-      cb(null, uploadDir);
-    },
-    filename: (req, file, cb) => {
-      const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
-      const ext = path.extname(file.originalname);
-      cb(null, 'product-' + uniqueSuffix + ext);
-    }
-  });
+  // Uploads are kept in memory until their content has been checked and the
+  // resized renditions written; the original file is never stored
+  const multerStorage = multer.memoryStorage();
   
   const upload = multer({ 
     storage: multerStorage,
@@ -63,8 +138,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       fileSize: 5 * 1024 * 1024 // 5MB limit
     },
     fileFilter: (req, file, cb) => {
-      // Accept only image files
-      if (file.mimetype.startsWith('image/')) {
+      // Quick check on the declared type; the content itself is sniffed after upload.
+      // SVG can carry scripts, so it's refused outright.
+      if (file.mimetype.startsWith('image/') && file.mimetype !== 'image/svg+xml') {
         cb(null, true);
       } else {
         cb(new Error('Only image files are allowed'));
@@ -72,6 +148,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Product sheets for bulk import are parsed straight from memory
+  const importUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: {
+      fileSize: 10 * 1024 * 1024 // 10MB limit
+    },
+    fileFilter: (req, file, cb) => {
+      if (productSheetFormat(file.originalname)) {
+        cb(null, true);
+      } else {
+        cb(new Error('Only CSV and XLSX files are allowed'));
+      }
+    }
+  });
+
   // Role-based authorization middleware
   const requireRole = (roles: string[]) => {
     return (req: Request, res: Response, next: NextFunction) => {
@@ -109,21 +200,232 @@ export async function registerRoutes(app: Express): Promise<Server> {
     return req.user;
   };
 
-  // Products API
-  app.get("/api/products", async (req, res) => {
-    try {
-      const { category, supplierId, comingSoon } = req.query;
-      const filters: any = {
-        isActive: true,
+  // Load an order with the items the current user is allowed to see.
+  // Customers only get their own orders; suppliers only get orders containing
+  // their products, and only their own items within them.
+  const getOrderForUser = async (req: Request, orderId: number) => {
+    const order = await dbStorage.getOrder(orderId);
+    if (!order) {
+      return { error: { status: 404, message: "Order not found" } };
+    }
+
+    const user = safeUser(req);
+    if (user?.role === "customer" && order.customerId !== user.id) {
+      return { error: { status: 403, message: "You can only view your own orders" } };
+    }
+
+    const orderItems = await dbStorage.getOrderItems(orderId);
+    const fulfillments = await orderStorage.getOrderFulfillments(orderId);
+
+    if (user?.role === "supplier") {
+      const supplierProducts = await dbStorage.getProducts({ supplierId: user.id });
+      const supplierProductIds = supplierProducts.map(product => product.id);
+
+      const supplierItems = orderItems.filter(item =>
+        supplierProductIds.includes(item.productId)
+      );
+
+      if (supplierItems.length === 0) {
+        return { error: { status: 403, message: "You can only view orders containing your products" } };
+      }
+
+      return {
+        order,
+        items: supplierItems,
+        fulfillments: fulfillments.filter(fulfillment => fulfillment.supplierId === user.id)
+      };
+    }
+
+    return { order, items: orderItems, fulfillments };
+  };
+
+  // Order items as printed on invoices and packing slips, with the product
+  // name and the variant's SKU when the item was bought as a variant
+  const buildDocumentLines = async (items: { productId: number; variantId?: number | null; quantity: number; size?: string | null; color?: string | null; price: number }[]) =>
+    Promise.all(items.map(async (item): Promise<DocumentLine> => {
+      const product = await dbStorage.getProduct(item.productId);
+      const variants = item.variantId ? await inventoryStorage.getProductVariants(item.productId) : [];
+      const variant = variants.find(candidate => candidate.id === item.variantId);
+
+      return {
+        name: product?.name ?? `Product #${item.productId}`,
+        sku: variant?.sku ?? product?.sku ?? null,
+        size: item.size,
+        color: item.color,
+        quantity: item.quantity,
+        unitPrice: item.price
       };
+    }));
+
+  // Who sees live events about an order, with the same supplier scoping as
+  // the orders routes: suppliers whose products are in the order
+  const orderAudience = async (order: { id: number; customerId: number }): Promise<LiveEventAudience> => {
+    const orderItems = await dbStorage.getOrderItems(order.id);
+    const productIds = Array.from(new Set(orderItems.map(item => item.productId)));
+    const products = await Promise.all(productIds.map(productId => dbStorage.getProduct(productId)));
+
+    return {
+      supplierIds: Array.from(new Set(products.flatMap(product => product ? [product.supplierId] : []))),
+      customerId: order.customerId
+    };
+  };
+
+  // Push an event about an order once its audience is looked up. The change
+  // is already committed, so a failure here is only logged.
+  const publishOrderEvent = (order: { id: number; customerId: number }, event: Omit<LiveEvent, "audience">) => {
+    orderAudience(order)
+      .then(audience => publishLiveEvent({ ...event, audience }))
+      .catch(error => {
+        console.error("Error publishing order event:", error);
+      });
+  };
+
+  // Push the products' newly opened low-stock alerts to their suppliers after
+  // stock went down; alerts already announced stay quiet. Runs after the
+  // response, so a failure here is only logged.
+  const announceLowStock = (productIds: number[]) => {
+    inventoryStorage.claimLowStockAnnouncements(productIds)
+      .then(alerts => {
+        for (const alert of alerts) {
+          publishLiveEvent({ type: "low_stock", data: alert, audience: { supplierIds: [alert.supplierId] } });
+        }
+      })
+      .catch(error => {
+        console.error("Error announcing low stock:", error);
+      });
+  };
+
+  // Move an order to a new status and record who did it in the order's history.
+  // Its pending fulfillment groups move with it; cancelling also returns the
+  // reserved stock, recorded as cancel movements, in the same transaction.
+  // The customer is notified in that transaction too, unless notify is false.
+  const changeOrderStatus = async (
+    order: { id: number; status: string; customerId: number },
+    status: string,
+    actor: { id: number | null; role: OrderActorRole },
+    note?: string,
+    notify = true
+  ) => {
+    const change = {
+      fromStatus: order.status,
+      toStatus: status,
+      actorId: actor.id,
+      actorRole: actor.role,
+      note: note || null
+    };
+
+    const notifications: NotificationInput[] = notify
+      ? [{
+        userId: order.customerId,
+        type: "order_status_changed",
+        data: { orderId: order.id, fromStatus: order.status, toStatus: status, note: note || null }
+      }]
+      : [];
+
+    const updatedOrder = status === "cancelled"
+      ? await orderStorage.cancelOrder(order.id, change, notifications)
+      : await orderStorage.updateOrderStatus(order.id, change, notifications);
+
+    publishOrderEvent(order, {
+      type: "order_status_changed",
+      data: { orderId: order.id, fromStatus: order.status, toStatus: status }
+    });
+
+    return updatedOrder;
+  };
+
+  // Ledger of a supplier's paid sales, refunds and payouts over a period.
+  // The summary comes from aggregate queries, not from adding up the lines.
+  const getSupplierEarnings = async (supplierId: number, range: { from?: Date; to?: Date }) => {
+    const [totals, sales, refunds, payouts] = await Promise.all([
+      earningsStorage.getSupplierEarningsTotals(supplierId, range),
+      earningsStorage.getSupplierSales(supplierId, range),
+      earningsStorage.getSupplierRefunds(supplierId, range),
+      earningsStorage.getPayouts({ supplierId, from: range.from, to: range.to })
+    ]);
+
+    return {
+      supplierId,
+      from: range.from ?? null,
+      to: range.to ?? null,
+      commissionPercent: PLATFORM_COMMISSION_PERCENT,
+      summary: summarizeEarnings(totals),
+      sales,
+      refunds,
+      payouts
+    };
+  };
+
+  // What is owed to the supplier overall, without loading the ledger lines
+  const getSupplierBalance = async (supplierId: number) =>
+    summarizeEarnings(await earningsStorage.getSupplierEarningsTotals(supplierId, {})).balance;
+
+  // Apply a coupon code to priced items. Usage limits are checked here for
+  // feedback and again by storage when the order is created.
+  const applyCouponCode = async (code: unknown, pricing: OrderPriceBreakdown, customerId: number | null) => {
+    const promotion = await promotionStorage.getPromotionByCode(String(code).trim().toUpperCase());
+    if (!promotion) {
+      throw new PromotionError("Coupon code not found");
+    }
+
+    const usage = await promotionStorage.getPromotionUsage(promotion.id, customerId);
+    return applyPromotion(promotion, pricing, usage);
+  };
+
+  // Price an order from the catalog and apply its coupon code, if any
+  const priceCheckout = async (lines: any[], couponCode: unknown, customerId: number | null) => {
+    const pricing = await priceOrder(lines);
+    const promotion = couponCode ? await applyCouponCode(couponCode, pricing, customerId) : null;
+    const couponDiscount = promotion ? promotion.discount : 0;
+
+    return {
+      ...pricing,
+      promotion,
+      couponDiscount,
+      total: pricing.total - couponDiscount
+    };
+  };
+
+  // Merge a guest cart into the customer's cart on their first request after
+  // logging in through setupAuth, then drop the guest cart
+  app.use(async (req, res, next) => {
+    const guestCartId = getGuestCartId(req.get("cookie"));
+    const cartUser = safeUser(req);
+    if (!guestCartId || cartUser?.role !== "customer") {
+      return next();
+    }
+
+    try {
+      const guestCart = await cartStorage.getGuestCart(guestCartId);
+      if (guestCart && guestCart.items.length > 0) {
+        const customerCart = await dbStorage.getCart(cartUser.id);
+        // Pricing combines lines for the same variant, however each cart named it
+        const { items } = await priceCart([...(customerCart?.items || []), ...guestCart.items]);
+        await dbStorage.updateCart(cartUser.id, items);
+      }
+
+      await cartStorage.deleteGuestCart(guestCartId);
+      res.clearCookie(GUEST_CART_COOKIE);
+    } catch (error) {
+      // The guest cart is kept for the next request rather than failing this one
+      console.error("Error merging guest cart:", error);
+    }
 
-      if (category) filters.category = category;
-      if (supplierId) filters.supplierId = Number(supplierId);
-      if (comingSoon !== undefined) filters.comingSoon = comingSoon === 'true';
+    next();
+  });
 
-      const products = await dbStorage.getProducts(filters);
-      res.json(products);
+  // Products API
+  // Storefront catalog: keyword search, filters, sorting, page pagination and
+  // facet counts, all done in the database query
+  app.get("/api/products", async (req, res) => {
+    try {
+      const query = productSearchSchema.parse(req.query);
+      const result = await catalogStorage.searchProducts({ ...query, isActive: true });
+      res.json(result);
     } catch (error) {
+      if (error instanceof ZodError) {
+        return handleZodError(error, res);
+      }
       console.error("Error fetching products:", error);
       res.status(500).json({ message: "Failed to fetch products" });
     }
@@ -133,29 +435,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/coming-soon-products", async (req, res) => {
     try {
       const comingSoonProducts = await dbStorage.getProducts({ comingSoon: true });
-      
-      // If no coming soon products in the database, return the mock product for demo purposes
-      if (comingSoonProducts.length === 0) {
-        const mockComingSoonProduct = {
-          id: 9999, // Using an ID that won't conflict with existing products
-          name: "Limited Edition Collection 2025",
-          description: "Our upcoming exclusive limited edition design - be the first to know when it launches!",
-          price: 49.99,
-          discount: 0,
-          category: "t-shirts",
-          imageUrls: ["https://images.unsplash.com/photo-1583743814966-8936f5b7be1a?ixlib=rb-4.0.3&ixid=MnwxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8&auto=format&fit=crop&w=600&h=600"],
-          availableSizes: ["S", "M", "L", "XL"],
-          availableColors: ["Black", "White", "Red"],
-          supplierId: 2,
-          stock: 0,
-          isActive: false,
-          comingSoon: true,
-          releaseDate: new Date(2025, 5, 15) // June 15, 2025
-        };
-        
-        return res.json([mockComingSoonProduct]);
-      }
-      
       res.json(comingSoonProducts);
     } catch (error) {
       console.error("Error fetching coming soon products:", error);
@@ -166,9 +445,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Create coming soon product
   app.post("/api/products/coming-soon", requireRole(["admin", "supplier"]), async (req, res) => {
     try {
+      // The launch scheduler activates the product at its release date
+      const releaseDate = req.body.releaseDate ? new Date(req.body.releaseDate) : null;
+      if (!releaseDate || isNaN(releaseDate.getTime())) {
+        return res.status(400).json({ message: "A valid release date is required" });
+      }
+
+      if (req.body.price !== undefined && !isMinorUnitAmount(req.body.price)) {
+        return res.status(400).json({ message: "Price must be a whole number of minor currency units" });
+      }
+
       // Set stock to 0, isActive to false and comingSoon to true
       const productData = {
         ...req.body,
+        currency: STORE_CURRENCY,
+        releaseDate,
         stock: 0,
         isActive: false,
         comingSoon: true
@@ -187,30 +478,154 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Catalog export in the same sheet layout the import reads. Suppliers get
+  // their own products; admins get everything or one supplier's catalog.
+  app.get("/api/products/export", requireRole(["admin", "supplier"]), async (req, res) => {
+    try {
+      const exportUser = safeUser(req);
+      if (!exportUser) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const query = productExportQuerySchema.parse(req.query);
+      const supplierId = exportUser.role === "supplier" ? exportUser.id : query.supplierId;
+      const products = await dbStorage.getProducts(supplierId !== undefined ? { supplierId } : undefined);
+
+      const sheet = await writeProductSheet(products, query.format);
+      const filename = `products-${new Date().toISOString().slice(0, 10)}.${query.format}`;
+
+      res.setHeader("Content-Type", query.format === "csv"
+        ? "text/csv; charset=utf-8"
+        : "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      res.send(sheet);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return handleZodError(error, res);
+      }
+      console.error("Error exporting products:", error);
+      res.status(500).json({ message: "Failed to export products" });
+    }
+  });
+
+  // Bulk create or update products from a CSV/XLSX sheet, matched on the
+  // supplier's SKU. Every row is validated before anything is written; with
+  // ?dryRun=true nothing is written and the planned action per row is returned.
+  app.post("/api/products/import", requireRole(["admin", "supplier"]), importUpload.single("file"), async (req: Request & { file?: Express.Multer.File }, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+
+      const importUser = safeUser(req);
+      if (!importUser) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const dryRun = req.query.dryRun === "true";
+      const rows = await readProductSheet(req.file.buffer, productSheetFormat(req.file.originalname) ?? "csv");
+
+      const errors: ProductImportRowError[] = [];
+      const plan: { line: number; sku: string; action: "create" | "update"; productId: number | null; data: Partial<InsertProduct> }[] = [];
+      const seenSkus = new Set<string>();
+
+      for (const row of rows) {
+        const rowErrors: string[] = [];
+
+        // Suppliers always import into their own catalog; admins say whose it is per row
+        const supplierId = importUser.role === "supplier" ? importUser.id : row.values.supplierId;
+
+        const skuKey = `${supplierId}:${row.sku}`;
+        if (!row.sku) {
+          rowErrors.push("sku is required");
+        } else if (seenSkus.has(skuKey)) {
+          rowErrors.push(`SKU ${row.sku} appears more than once in the file`);
+        }
+        seenSkus.add(skuKey);
+
+        const existing = row.sku && typeof supplierId === "number"
+          ? await catalogStorage.getProductBySku(supplierId, row.sku)
+          : undefined;
+
+        const rowData: Record<string, unknown> = { ...row.values, sku: row.sku, supplierId, currency: STORE_CURRENCY };
+        if (rowData.price !== undefined && !isMinorUnitAmount(rowData.price)) {
+          rowErrors.push("price: must be a whole number of minor currency units");
+        }
+
+        // Variant stock is set per variant; an unchanged total is let through so
+        // that an exported sheet can be imported again as it is
+        if (existing && rowData.stock !== undefined && (await inventoryStorage.getProductVariants(existing.id)).length > 0) {
+          if (rowData.stock === existing.stock) {
+            delete rowData.stock;
+          } else {
+            rowErrors.push("Stock for this product is managed per variant");
+          }
+        }
+
+        // Updates only change the columns that were filled in
+        const parsed = existing
+          ? insertProductSchema.partial().safeParse(rowData)
+          : insertProductSchema.safeParse({ comingSoon: false, ...rowData });
+        if (!parsed.success) {
+          rowErrors.push(...parsed.error.errors.map(issue => `${issue.path.join(".") || "row"}: ${issue.message}`));
+        }
+
+        if (rowErrors.length > 0 || !parsed.success) {
+          errors.push({ line: row.line, sku: row.sku || null, errors: rowErrors });
+        } else {
+          plan.push({
+            line: row.line,
+            sku: row.sku,
+            action: existing ? "update" : "create",
+            productId: existing ? existing.id : null,
+            data: parsed.data
+          });
+        }
+      }
+
+      const summary = {
+        dryRun,
+        created: plan.filter(row => row.action === "create").length,
+        updated: plan.filter(row => row.action === "update").length,
+        rows: plan.map(({ line, sku, action, productId }) => ({ line, sku, action, productId })),
+        errors
+      };
+
+      if (dryRun) {
+        return res.json(summary);
+      }
+
+      if (errors.length > 0) {
+        return res.status(400).json({ message: "Some rows are invalid; nothing was imported", ...summary });
+      }
+
+      // Writes every row in one transaction, recording stock changes as
+      // adjustment movements; if any row fails the catalog is left untouched
+      const products = await catalogStorage.importProducts(
+        plan.map(({ productId, data }) => ({ productId, data })),
+        {
+          type: "adjustment",
+          actorId: importUser.id,
+          actorRole: importUser.role === "supplier" ? "supplier" : "admin",
+          note: "Bulk import"
+        }
+      );
+
+      announceLowStock(products.map(product => product.id));
+
+      res.json({ ...summary, products });
+    } catch (error) {
+      if (error instanceof ProductImportError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error importing products:", error);
+      res.status(500).json({ message: "Failed to import products" });
+    }
+  });
+
   app.get("/api/products/:id", async (req, res) => {
     try {
       const productId = parseInt(req.params.id);
-      
-      // Special case for our mock coming soon product
-      if (productId === 9999) {
-        return res.json({
-          id: 9999,
-          name: "Limited Edition Collection 2025",
-          description: "Our upcoming exclusive limited edition design - be the first to know when it launches!",
-          price: 49.99,
-          discount: 0,
-          category: "t-shirts",
-          imageUrls: ["https://images.unsplash.com/photo-1583743814966-8936f5b7be1a?ixlib=rb-4.0.3&ixid=MnwxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8&auto=format&fit=crop&w=600&h=600"],
-          availableSizes: ["S", "M", "L", "XL"],
-          availableColors: ["Black", "White", "Red"],
-          supplierId: 2,
-          stock: 0,
-          isActive: false,
-          comingSoon: true,
-          releaseDate: new Date(2025, 5, 15) // June 15, 2025
-        });
-      }
-      
       const product = await dbStorage.getProduct(productId);
 
       if (!product) {
@@ -224,11 +639,89 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/products/:id/variants", async (req, res) => {
+    try {
+      const productId = parseInt(req.params.id);
+      const product = await dbStorage.getProduct(productId);
+
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+
+      const variants = await inventoryStorage.getProductVariants(productId);
+      res.json(variants);
+    } catch (error) {
+      console.error("Error fetching product variants:", error);
+      res.status(500).json({ message: "Failed to fetch product variants" });
+    }
+  });
+
+  // Waitlist for coming soon products. Everyone on it is notified at launch.
+  app.post("/api/products/:id/notify-me", requireRole(["customer"]), async (req, res) => {
+    try {
+      const productId = parseInt(req.params.id);
+      const product = await dbStorage.getProduct(productId);
+
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+
+      if (!product.comingSoon) {
+        return res.status(400).json({ message: "Product has already launched" });
+      }
+
+      const waitlistUser = safeUser(req);
+      if (!waitlistUser) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      // Joining twice keeps the original entry
+      const { entry, created } = await catalogStorage.addToWaitlist(productId, waitlistUser.id);
+      res.status(created ? 201 : 200).json(entry);
+    } catch (error) {
+      console.error("Error joining waitlist:", error);
+      res.status(500).json({ message: "Failed to join waitlist" });
+    }
+  });
+
+  app.delete("/api/products/:id/notify-me", requireRole(["customer"]), async (req, res) => {
+    try {
+      const productId = parseInt(req.params.id);
+      const waitlistUser = safeUser(req);
+      if (!waitlistUser) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const removed = await catalogStorage.removeFromWaitlist(productId, waitlistUser.id);
+      if (!removed) {
+        return res.status(404).json({ message: "You are not on the waitlist for this product" });
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error leaving waitlist:", error);
+      res.status(500).json({ message: "Failed to leave waitlist" });
+    }
+  });
+
   app.post("/api/products", requireRole(["admin", "supplier"]), async (req, res) => {
     try {
+      if (req.body.currency && req.body.currency !== STORE_CURRENCY) {
+        return res.status(400).json({ message: `Products must be priced in ${STORE_CURRENCY}` });
+      }
+
+      // Prices are integer minor units (pesewas for GHS), never decimals
+      if (req.body.price !== undefined && !isMinorUnitAmount(req.body.price)) {
+        return res.status(400).json({ message: "Price must be a whole number of minor currency units" });
+      }
+
+      const { variants: variantsInput, ...productInput } = req.body;
+      const variants = variantsInput !== undefined ? productVariantsInputSchema.parse(variantsInput) : [];
+
       // Add default false value for comingSoon if not provided 
       const productData = insertProductSchema.parse({
-        ...req.body,
+        ...productInput,
+        currency: STORE_CURRENCY,
         comingSoon: req.body.comingSoon || false
       });
 
@@ -238,10 +731,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         productData.supplierId = user.id;
       }
 
-      const product = await dbStorage.createProduct(productData);
+      const variantIssues = findVariantIssues(productData, variants);
+      if (variantIssues.length > 0) {
+        return res.status(400).json({ message: "Invalid product variants", errors: variantIssues });
+      }
 
-      // Initialize inventory for the supplier
-      await dbStorage.updateInventory(product.supplierId, product.id, product.stock);
+      // The product and the supplier's inventory are written together. With
+      // variants, the product's stock becomes the sum of its variants' stock.
+      // The opening stock is recorded as the product's first restock movement.
+      const product = await catalogStorage.createProduct(productData, variants, {
+        type: "restock",
+        actorId: user?.id ?? null,
+        actorRole: user?.role === "supplier" ? "supplier" : "admin",
+        note: "Opening stock"
+      });
 
       res.status(201).json(product);
     } catch (error) {
@@ -264,15 +767,74 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "You can only update your own products" });
       }
 
-      const updatedProduct = await dbStorage.updateProduct(productId, req.body);
+      if (req.body.currency && req.body.currency !== STORE_CURRENCY) {
+        return res.status(400).json({ message: `Products must be priced in ${STORE_CURRENCY}` });
+      }
+
+      // Prices are integer minor units (pesewas for GHS), never decimals
+      if (req.body.price !== undefined && !isMinorUnitAmount(req.body.price)) {
+        return res.status(400).json({ message: "Price must be a whole number of minor currency units" });
+      }
+
+      if (req.body.stock !== undefined && (!Number.isInteger(req.body.stock) || req.body.stock < 0)) {
+        return res.status(400).json({ message: "Invalid stock value" });
+      }
+
+      const variants = await inventoryStorage.getProductVariants(productId);
+      if (req.body.stock !== undefined && variants.length > 0) {
+        return res.status(400).json({ message: "Stock for this product is managed per variant" });
+      }
+
+      // Ownership and the rating aggregates kept from reviews can't be set
+      // here, and stock is set through storage so the change is recorded
+      const {
+        id,
+        supplierId,
+        ratingAverage,
+        ratingCount,
+        ratingHistogram,
+        createdAt,
+        stock,
+        variants: variantsInput,
+        ...productUpdates
+      } = req.body;
+
+      // Variants are checked against the sizes and colors the product will
+      // have after this update, before anything is written
+      const variantsUpdate = variantsInput !== undefined ? productVariantsInputSchema.parse(variantsInput) : null;
+      if (variantsUpdate) {
+        const variantIssues = findVariantIssues({ ...product, ...productUpdates }, variantsUpdate);
+        if (variantIssues.length > 0) {
+          return res.status(400).json({ message: "Invalid product variants", errors: variantIssues });
+        }
+      }
+
+      // Stock edited with the product is a manual adjustment
+      const adjustment = {
+        type: "adjustment",
+        actorId: user?.id ?? null,
+        actorRole: user?.role === "supplier" ? "supplier" : "admin"
+      } as const;
+
+      // The product, its variants or stock and the supplier's inventory are
+      // written in one transaction
+      const updatedProduct = await catalogStorage.updateProduct(
+        productId,
+        productUpdates,
+        variantsUpdate,
+        stock !== undefined ? stock : null,
+        adjustment
+      );
 
-      // Update inventory if stock changed
-      if (req.body.stock !== undefined) {
-        await dbStorage.updateInventory(product.supplierId, productId, req.body.stock);
+      if (stock !== undefined || variantsInput !== undefined) {
+        announceLowStock([productId]);
       }
 
       res.json(updatedProduct);
     } catch (error) {
+      if (error instanceof ZodError) {
+        return handleZodError(error, res);
+      }
       console.error("Error updating product:", error);
       res.status(500).json({ message: "Failed to update product" });
     }
@@ -329,9 +891,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
             );
 
             if (hasSupplierItems) {
+              const fulfillments = await orderStorage.getOrderFulfillments(order.id);
               return {
                 ...order,
-                items: orderItems.filter(item => supplierProductIds.includes(item.productId))
+                items: orderItems.filter(item => supplierProductIds.includes(item.productId)),
+                fulfillment: fulfillments.find(fulfillment => fulfillment.supplierId === supplierUser.id) || null
               };
             }
             return null;
@@ -353,116 +917,299 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/orders/:id", requireRole(["admin", "customer", "supplier"]), async (req, res) => {
     try {
       const orderId = parseInt(req.params.id);
-      const order = await dbStorage.getOrder(orderId);
-
-      if (!order) {
-        return res.status(404).json({ message: "Order not found" });
-      }
-
-      // Customers can only view their own orders
-      const orderUser = safeUser(req);
-      if (orderUser?.role === "customer" && order.customerId !== orderUser.id) {
-        return res.status(403).json({ message: "You can only view your own orders" });
-      }
-
-      // Get order items
-      const orderItems = await dbStorage.getOrderItems(orderId);
-
-      // Suppliers can only view orders containing their products
-      const itemsUser = safeUser(req);
-      if (itemsUser?.role === "supplier") {
-        // Get all products by the supplier
-        const supplierProducts = await dbStorage.getProducts({ supplierId: itemsUser.id });
-        const supplierProductIds = supplierProducts.map(product => product.id);
-
-        // Check if any order item is from this supplier
-        const hasSupplierItems = orderItems.some(item => 
-          supplierProductIds.includes(item.productId)
-        );
+      const result = await getOrderForUser(req, orderId);
 
-        if (!hasSupplierItems) {
-          return res.status(403).json({ message: "You can only view orders containing your products" });
-        }
-
-        // Filter order items to only include supplier's products
-        const filteredItems = orderItems.filter(item => 
-          supplierProductIds.includes(item.productId)
-        );
-
-        return res.json({ ...order, items: filteredItems });
+      if (result.error) {
+        return res.status(result.error.status).json({ message: result.error.message });
       }
 
-      res.json({ ...order, items: orderItems });
+      res.json({ ...result.order, items: result.items, fulfillments: result.fulfillments });
     } catch (error) {
       console.error("Error fetching order:", error);
       res.status(500).json({ message: "Failed to fetch order" });
     }
   });
 
-  app.post("/api/orders", requireRole(["customer"]), async (req, res) => {
+  // Status timeline for an order, visible to anyone who can view the order
+  app.get("/api/orders/:id/history", requireRole(["admin", "customer", "supplier"]), async (req, res) => {
     try {
-      const createOrderUser = safeUser(req);
-      if (!createOrderUser) {
-        return res.status(401).json({ message: "Unauthorized" });
-      }
-      
-      const orderData = insertOrderSchema.parse({
-        ...req.body,
-        customerId: createOrderUser.id
-      });
-
-      // Create the order
-      const order = await dbStorage.createOrder(orderData);
+      const orderId = parseInt(req.params.id);
+      const result = await getOrderForUser(req, orderId);
 
-      // Add order items
-      const orderItems = req.body.items || [];
-      for (const item of orderItems) {
-        const orderItemData = insertOrderItemSchema.parse({
-          ...item,
-          orderId: order.id
-        });
+      if (result.error) {
+        return res.status(result.error.status).json({ message: result.error.message });
+      }
 
-        await dbStorage.addOrderItem(orderItemData);
+      const history = await orderStorage.getOrderStatusHistory(orderId);
 
-        // Update product stock
-        const product = await dbStorage.getProduct(item.productId);
-        if (product) {
-          const newStock = Math.max(0, product.stock - item.quantity);
-          await dbStorage.updateProduct(item.productId, { stock: newStock });
-          await dbStorage.updateInventory(product.supplierId, product.id, newStock);
-        }
+      // Customers see what happened and when, not which staff account did it
+      const historyUser = safeUser(req);
+      if (historyUser?.role === "customer") {
+        return res.json(history.map(({ actorId, ...entry }) => entry));
       }
 
-      // Clear user's cart
-      const cartUser = safeUser(req);
-      if (cartUser) {
-        await dbStorage.updateCart(cartUser.id, []);
+      // Suppliers see order-level changes and their own fulfillment group
+      if (historyUser?.role === "supplier") {
+        return res.json(history.filter(entry =>
+          entry.supplierId === null || entry.supplierId === historyUser.id
+        ));
       }
 
-      res.status(201).json(order);
+      res.json(history);
     } catch (error) {
-      handleZodError(error, res);
+      console.error("Error fetching order history:", error);
+      res.status(500).json({ message: "Failed to fetch order history" });
     }
   });
 
-  app.put("/api/orders/:id", requireRole(["admin"]), async (req, res) => {
+  // Invoice for a paid order. The first request issues the invoice and takes
+  // the next invoice number; later requests reprint it with the same number.
+  app.get("/api/orders/:id/invoice.pdf", requireRole(["admin", "customer"]), async (req, res) => {
     try {
       const orderId = parseInt(req.params.id);
-      const order = await dbStorage.getOrder(orderId);
+      const result = await getOrderForUser(req, orderId);
 
-      if (!order) {
-        return res.status(404).json({ message: "Order not found" });
+      if (result.error) {
+        return res.status(result.error.status).json({ message: result.error.message });
       }
 
-      const updatedOrder = await dbStorage.updateOrder(orderId, req.body);
-      res.json(updatedOrder);
+      const { order, items } = result;
+      if (!EARNING_PAYMENT_STATUSES.includes(order.paymentStatus)) {
+        return res.status(400).json({ message: "An invoice is only available once the order has been paid" });
+      }
+
+      const invoice = await orderStorage.getOrCreateInvoice(orderId);
+      const customer = await dbStorage.getUser(order.customerId);
+      const refunds = await orderStorage.getOrderRefunds(orderId);
+
+      const invoiceNumber = formatInvoiceNumber(invoice.sequence, invoice.issuedAt);
+      const pdf = await renderInvoicePdf({
+        invoiceNumber,
+        issuedAt: invoice.issuedAt,
+        orderId: order.id,
+        orderDate: order.createdAt,
+        customerName: customer?.fullName ?? null,
+        currency: order.currency,
+        lines: await buildDocumentLines(items),
+        productDiscount: order.discountAmount,
+        shipping: order.shippingAmount,
+        couponCode: order.couponCode,
+        couponDiscount: order.couponDiscount,
+        total: order.totalAmount,
+        refunded: refunds.filter(isSettledRefund).reduce((sum, refund) => sum + refund.amount, 0),
+        paymentReference: order.paymentReference,
+        paymentStatus: order.paymentStatus
+      });
+
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `inline; filename="${invoiceNumber}.pdf"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error("Error generating invoice:", error);
+      res.status(500).json({ message: "Failed to generate invoice" });
+    }
+  });
+
+  // Packing slip with no prices. Suppliers only see their own items; admins
+  // get the whole order, or one supplier's items with ?supplierId=
+  app.get("/api/orders/:id/packing-slip.pdf", requireRole(["admin", "supplier"]), async (req, res) => {
+    try {
+      const orderId = parseInt(req.params.id);
+      const result = await getOrderForUser(req, orderId);
+
+      if (result.error) {
+        return res.status(result.error.status).json({ message: result.error.message });
+      }
+
+      const slipUser = safeUser(req);
+      const supplierId = slipUser?.role === "supplier"
+        ? slipUser.id
+        : req.query.supplierId ? Number(req.query.supplierId) : null;
+
+      const items = supplierId !== null
+        ? result.items.filter(item => item.supplierId === supplierId)
+        : result.items;
+      if (items.length === 0) {
+        return res.status(404).json({ message: "No items to pack for this supplier" });
+      }
+
+      const fulfillment = supplierId !== null
+        ? result.fulfillments.find(group => group.supplierId === supplierId)
+        : undefined;
+      const supplier = supplierId !== null ? await dbStorage.getUser(supplierId) : undefined;
+
+      const pdf = await renderPackingSlipPdf({
+        orderId: result.order.id,
+        orderDate: result.order.createdAt,
+        supplierName: supplier?.fullName ?? null,
+        fulfillmentStatus: fulfillment?.status ?? null,
+        lines: await buildDocumentLines(items)
+      });
+
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `inline; filename="packing-slip-${result.order.id}.pdf"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error("Error generating packing slip:", error);
+      res.status(500).json({ message: "Failed to generate packing slip" });
+    }
+  });
+
+  // Price breakdown for checkout, computed exactly as POST /api/orders will charge it
+  app.post("/api/orders/quote", requireRole(["customer"]), async (req, res) => {
+    try {
+      const quoteUser = safeUser(req);
+      const pricing = await priceCheckout(req.body.items || [], req.body.couponCode, quoteUser?.id ?? null);
+      res.json(pricing);
+    } catch (error) {
+      if (error instanceof OrderPricingError) {
+        return res.status(400).json({ message: error.message, errors: error.issues });
+      }
+      if (error instanceof PromotionError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error pricing order:", error);
+      res.status(500).json({ message: "Failed to price order" });
+    }
+  });
+
+  app.post("/api/orders", requireRole(["customer"]), async (req, res) => {
+    try {
+      const createOrderUser = safeUser(req);
+      if (!createOrderUser) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      // Prices come from the catalog, never from the client
+      const pricing = await priceCheckout(req.body.items || [], req.body.couponCode, createOrderUser.id);
+
+      const { couponCode, ...orderInput } = req.body;
+      const orderData = insertOrderSchema.parse({
+        ...orderInput,
+        customerId: createOrderUser.id,
+        currency: pricing.currency,
+        subtotal: pricing.subtotal,
+        discountAmount: pricing.discount,
+        shippingAmount: pricing.shipping,
+        promotionId: pricing.promotion?.promotionId ?? null,
+        couponCode: pricing.promotion?.code ?? null,
+        couponDiscount: pricing.couponDiscount,
+        totalAmount: pricing.total
+      });
+
+      const orderItemsData = pricing.items.map(item => insertOrderItemSchema.omit({ orderId: true }).parse({
+        productId: item.productId,
+        variantId: item.variantId,
+        supplierId: item.supplierId,
+        quantity: item.quantity,
+        size: item.size,
+        color: item.color,
+        price: item.finalUnitPrice
+      }));
+
+      // Create the order, its items, one fulfillment group per supplier, the
+      // stock reservation (recorded as sale movements), the coupon redemption
+      // and the customer's and suppliers' notifications in one transaction. If
+      // any line is short or the coupon has run out, nothing is written.
+      const order = await orderStorage.createOrderWithItems(
+        orderData,
+        orderItemsData,
+        pricing.promotion
+          ? { promotionId: pricing.promotion.promotionId, customerId: createOrderUser.id, discount: pricing.couponDiscount }
+          : null,
+        createdOrder => orderPlacedNotifications(createdOrder, pricing.items)
+      );
+
+      // Clear user's cart
+      const cartUser = safeUser(req);
+      if (cartUser) {
+        await dbStorage.updateCart(cartUser.id, []);
+      }
+
+      publishLiveEvent({
+        type: "order_created",
+        data: { orderId: order.id, status: order.status, totalAmount: order.totalAmount, currency: order.currency },
+        audience: {
+          supplierIds: Array.from(new Set(pricing.items.map(item => item.supplierId))),
+          customerId: order.customerId
+        }
+      });
+      announceLowStock(pricing.items.map(item => item.productId));
+
+      res.status(201).json({ ...order, pricing });
+    } catch (error) {
+      if (error instanceof OrderPricingError) {
+        return res.status(400).json({ message: error.message, errors: error.issues });
+      }
+      if (error instanceof InsufficientStockError) {
+        return res.status(409).json({ message: error.message, items: error.shortages });
+      }
+      if (error instanceof PromotionError) {
+        return res.status(400).json({ message: error.message });
+      }
+      handleZodError(error, res);
+    }
+  });
+
+  app.put("/api/orders/:id", requireRole(["admin"]), async (req, res) => {
+    try {
+      const orderId = parseInt(req.params.id);
+      const order = await dbStorage.getOrder(orderId);
+
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      // Identity, pricing and payment fields are owned by the order and payment flows
+      const {
+        id,
+        customerId,
+        subtotal,
+        discountAmount,
+        shippingAmount,
+        promotionId,
+        couponCode,
+        couponDiscount,
+        totalAmount,
+        paymentStatus,
+        paymentReference,
+        createdAt,
+        status,
+        note,
+        ...orderUpdates
+      } = req.body;
+
+      // Status changes go through the same transition rules as PATCH
+      if (status !== undefined && status !== order.status) {
+        if (!ORDER_LEVEL_STATUSES.includes(status)) {
+          return res.status(400).json({ message: "Shipping status is updated per supplier fulfillment" });
+        }
+
+        const transition = checkOrderTransition(order, status, "admin");
+        if (!transition.allowed) {
+          return res.status(transition.statusCode!).json({ message: transition.message });
+        }
+      }
+
+      let updatedOrder = order;
+      if (Object.keys(orderUpdates).length > 0) {
+        updatedOrder = await dbStorage.updateOrder(orderId, orderUpdates);
+      }
+      if (status !== undefined && status !== order.status) {
+        const adminUser = safeUser(req);
+        updatedOrder = await changeOrderStatus(order, status, { id: adminUser?.id ?? null, role: "admin" }, note);
+      }
+
+      res.json(updatedOrder);
     } catch (error) {
       console.error("Error updating order:", error);
       res.status(500).json({ message: "Failed to update order" });
     }
   });
 
-  // PATCH endpoint for suppliers to update order status
+  // PATCH endpoint for suppliers to update their fulfillment of an order.
+  // Admins can update a supplier's group by passing supplierId, or confirm and
+  // cancel the whole order without it.
   app.patch("/api/orders/:id", requireRole(["admin", "supplier"]), async (req, res) => {
     try {
       const orderId = parseInt(req.params.id);
@@ -472,74 +1219,311 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Order not found" });
       }
 
-      // Only allow updating order status
-      if (!req.body.status) {
+      const { status, trackingNumber, note } = req.body;
+      if (!status && trackingNumber === undefined) {
         return res.status(400).json({ message: "Order status is required" });
       }
 
-      // Validate order status
-      const validStatuses = ["pending", "processing", "shipped", "delivered", "cancelled"];
-      if (!validStatuses.includes(req.body.status)) {
-        return res.status(400).json({ message: "Invalid order status" });
+      const orderUser = safeUser(req);
+      const actorRole = orderUser?.role === "supplier" ? "supplier" : "admin";
+      const actor = { id: orderUser?.id ?? null, role: actorRole } as const;
+
+      const fulfillmentSupplierId = actorRole === "supplier"
+        ? orderUser!.id
+        : req.body.supplierId !== undefined ? Number(req.body.supplierId) : null;
+
+      // Whole-order changes (admins only)
+      if (fulfillmentSupplierId === null) {
+        if (!status || !ORDER_LEVEL_STATUSES.includes(status)) {
+          return res.status(400).json({ message: "Shipping status is updated per supplier fulfillment" });
+        }
+
+        const transition = checkOrderTransition(order, status, actorRole);
+        if (!transition.allowed) {
+          return res.status(transition.statusCode!).json({ message: transition.message });
+        }
+
+        const updatedOrder = await changeOrderStatus(order, status, actor, note);
+        return res.json(updatedOrder);
       }
 
-      // For suppliers, we need to check if this order contains their products
-      const orderUser = safeUser(req);
-      if (orderUser?.role === "supplier") {
-        const orderItems = await dbStorage.getOrderItems(orderId);
-        const supplierProducts = await dbStorage.getProducts({ supplierId: orderUser.id });
-        const supplierProductIds = supplierProducts.map(product => product.id);
+      const fulfillments = await orderStorage.getOrderFulfillments(orderId);
+      const fulfillment = fulfillments.find(group => group.supplierId === fulfillmentSupplierId);
 
-        // Check if any order item is from this supplier
-        const hasSupplierItems = orderItems.some(item => 
-          supplierProductIds.includes(item.productId)
-        );
+      if (!fulfillment) {
+        return actorRole === "supplier"
+          ? res.status(403).json({ message: "You can only update orders containing your products" })
+          : res.status(404).json({ message: "Fulfillment not found for this supplier" });
+      }
+
+      const fulfillmentUpdates: Record<string, unknown> = {};
+      if (trackingNumber !== undefined) {
+        fulfillmentUpdates.trackingNumber = trackingNumber;
+      }
 
-        if (!hasSupplierItems) {
-          return res.status(403).json({ message: "You can only update orders containing your products" });
+      let statusChange = null;
+      if (status && status !== fulfillment.status) {
+        const transition = checkOrderTransition(
+          { status: fulfillment.status, paymentStatus: order.paymentStatus },
+          status,
+          actorRole
+        );
+        if (!transition.allowed) {
+          return res.status(transition.statusCode!).json({ message: transition.message });
         }
+
+        fulfillmentUpdates.status = status;
+        if (status === "shipped") fulfillmentUpdates.shippedAt = new Date();
+        if (status === "delivered") fulfillmentUpdates.deliveredAt = new Date();
+
+        statusChange = {
+          fromStatus: fulfillment.status,
+          toStatus: status,
+          actorId: actor.id,
+          actorRole: actor.role,
+          supplierId: fulfillment.supplierId,
+          note: note || null
+        };
       }
 
-      const updatedOrder = await dbStorage.updateOrder(orderId, { status: req.body.status });
-      res.json(updatedOrder);
+      // The customer hears about each supplier's shipping progress
+      const notifications: NotificationInput[] = [];
+      if (statusChange) {
+        const supplier = await dbStorage.getUser(fulfillment.supplierId);
+        notifications.push({
+          userId: order.customerId,
+          type: "order_status_changed",
+          data: {
+            orderId,
+            supplierName: supplier?.fullName ?? null,
+            fromStatus: fulfillment.status,
+            toStatus: status,
+            trackingNumber: trackingNumber ?? fulfillment.trackingNumber ?? null,
+            note: note || null
+          }
+        });
+      }
+
+      // Cancelling a group returns only that group's stock, as cancel
+      // movements. The order's status follows its groups in the same
+      // transaction.
+      const { fulfillment: updatedFulfillment, order: updatedOrder } = status === "cancelled" && statusChange
+        ? await orderStorage.cancelFulfillment(orderId, fulfillment.id, statusChange, notifications)
+        : await orderStorage.updateFulfillment(orderId, fulfillment.id, fulfillmentUpdates, statusChange, notifications);
+
+      // Other suppliers on the order don't see this group's progress
+      if (statusChange) {
+        publishLiveEvent({
+          type: "order_status_changed",
+          data: {
+            orderId,
+            supplierId: fulfillment.supplierId,
+            fromStatus: fulfillment.status,
+            toStatus: updatedFulfillment.status,
+            orderStatus: updatedOrder.status
+          },
+          audience: { supplierIds: [fulfillment.supplierId], customerId: order.customerId }
+        });
+      }
+
+      res.json({ ...updatedOrder, fulfillment: updatedFulfillment });
     } catch (error) {
       console.error("Error updating order status:", error);
       res.status(500).json({ message: "Failed to update order status" });
     }
   });
 
+  // Refunds API (admin only). Without items the whole remaining order is
+  // refunded; with items only those quantities are.
+  app.post("/api/orders/:id/refunds", requireRole(["admin"]), async (req, res) => {
+    try {
+      const orderId = parseInt(req.params.id);
+      const order = await dbStorage.getOrder(orderId);
+
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      if (!["paid", "partially_refunded"].includes(order.paymentStatus) || !order.paymentReference) {
+        return res.status(400).json({ message: "Only paid orders can be refunded" });
+      }
+
+      // Reserve the refund under a lock on the order before calling the
+      // provider, so concurrent requests can't both refund the same items
+      const refundUser = safeUser(req);
+      const reservedRefund = await orderStorage.reserveRefund(orderId, (lockedOrder, orderItems, previousRefunds) => {
+        const plan = planRefund(orderItems, previousRefunds, req.body.items);
+        const alreadyRefunded = previousRefunds.reduce((sum, refund) => sum + refund.amount, 0);
+
+        return {
+          amount: refundAmountForOrder(plan, lockedOrder.totalAmount, orderItems, alreadyRefunded),
+          items: plan.lines,
+          reason: req.body.reason || null,
+          createdBy: refundUser?.id ?? null
+        };
+      });
+
+      let providerRefund;
+      try {
+        providerRefund = await paymentProvider.refund({
+          reference: order.paymentReference,
+          amount: reservedRefund.amount
+        });
+      } catch (error) {
+        await orderStorage.failRefund(reservedRefund.id);
+        throw error;
+      }
+
+      // Settling updates paymentStatus and returns the refunded quantities
+      // that weren't already returned by a cancellation to products and
+      // supplier inventory, as refund movements, in one transaction
+      const refund = await orderStorage.settleRefund(reservedRefund.id, {
+        providerRefundId: providerRefund.refundId,
+        status: providerRefund.status
+      });
+
+      res.status(201).json(refund);
+    } catch (error) {
+      if (error instanceof RefundRequestError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof PaymentProviderError) {
+        console.error("Payment provider refund error:", error.details || error.message);
+        return res.status(502).json({ message: error.message });
+      }
+
+      console.error("Error refunding order:", error);
+      res.status(500).json({ message: "Failed to refund order" });
+    }
+  });
+
+  app.get("/api/orders/:id/refunds", requireRole(["admin", "customer"]), async (req, res) => {
+    try {
+      const orderId = parseInt(req.params.id);
+      const result = await getOrderForUser(req, orderId);
+
+      if (result.error) {
+        return res.status(result.error.status).json({ message: result.error.message });
+      }
+
+      const refunds = await orderStorage.getOrderRefunds(orderId);
+      res.json(refunds);
+    } catch (error) {
+      console.error("Error fetching refunds:", error);
+      res.status(500).json({ message: "Failed to fetch refunds" });
+    }
+  });
+
   // Cart API
-  app.get("/api/cart", requireRole(["customer"]), async (req, res) => {
+  // Customers have a cart stored against their account. Visitors who haven't
+  // logged in get a guest cart identified by a cookie, merged in at login.
+  app.get("/api/cart", async (req, res) => {
     try {
       const cartViewUser = safeUser(req);
-      if (!cartViewUser) {
-        return res.status(401).json({ message: "Unauthorized" });
+      if (cartViewUser && cartViewUser.role !== "customer") {
+        return res.status(403).json({ message: "Forbidden: Insufficient permissions" });
       }
-      
-      const cart = await dbStorage.getCart(cartViewUser.id);
-      res.json(cart || { userId: cartViewUser.id, items: [] });
+
+      let items: CartItem[] = [];
+      if (cartViewUser) {
+        const cart = await dbStorage.getCart(cartViewUser.id);
+        items = cart?.items || [];
+      } else {
+        const guestCartId = getGuestCartId(req.get("cookie"));
+        const guestCart = guestCartId ? await cartStorage.getGuestCart(guestCartId) : null;
+        items = guestCart?.items || [];
+      }
+
+      const { cart } = await priceCart(items);
+      res.json({ userId: cartViewUser?.id ?? null, ...cart });
     } catch (error) {
       console.error("Error fetching cart:", error);
       res.status(500).json({ message: "Failed to fetch cart" });
     }
   });
 
-  app.put("/api/cart", requireRole(["customer"]), async (req, res) => {
+  app.put("/api/cart", async (req, res) => {
     try {
-      const items = req.body.items as CartItem[];
+      if (!Array.isArray(req.body.items)) {
+        return res.status(400).json({ message: "Cart items must be an array" });
+      }
+
       const updateCartUser = safeUser(req);
-      if (!updateCartUser) {
-        return res.status(401).json({ message: "Unauthorized" });
+      if (updateCartUser && updateCartUser.role !== "customer") {
+        return res.status(403).json({ message: "Forbidden: Insufficient permissions" });
       }
-      
-      const cart = await dbStorage.updateCart(updateCartUser.id, items);
-      res.json(cart);
+
+      // Only lines that can actually be bought are stored
+      const { items, cart } = await priceCart(req.body.items as CartItem[]);
+
+      if (updateCartUser) {
+        await dbStorage.updateCart(updateCartUser.id, items);
+      } else {
+        let guestCartId = getGuestCartId(req.get("cookie"));
+        if (!guestCartId) {
+          guestCartId = createGuestCartId();
+          res.cookie(GUEST_CART_COOKIE, guestCartId, {
+            httpOnly: true,
+            sameSite: "lax",
+            secure: process.env.NODE_ENV === "production",
+            maxAge: GUEST_CART_MAX_AGE_MS
+          });
+        }
+        await cartStorage.updateGuestCart(guestCartId, items);
+      }
+
+      res.json({ userId: updateCartUser?.id ?? null, ...cart });
     } catch (error) {
       console.error("Error updating cart:", error);
       res.status(500).json({ message: "Failed to update cart" });
     }
   });
 
+  // Check a coupon code against the current cart and show what it takes off.
+  // The code is applied for real when it's sent with POST /api/orders.
+  app.post("/api/cart/apply-coupon", async (req, res) => {
+    try {
+      if (!req.body.code) {
+        return res.status(400).json({ message: "Coupon code is required" });
+      }
+
+      const couponUser = safeUser(req);
+      if (couponUser && couponUser.role !== "customer") {
+        return res.status(403).json({ message: "Forbidden: Insufficient permissions" });
+      }
+
+      let items: CartItem[] = [];
+      if (couponUser) {
+        const cart = await dbStorage.getCart(couponUser.id);
+        items = cart?.items || [];
+      } else {
+        const guestCartId = getGuestCartId(req.get("cookie"));
+        const guestCart = guestCartId ? await cartStorage.getGuestCart(guestCartId) : null;
+        items = guestCart?.items || [];
+      }
+
+      const { cart } = await priceCart(items);
+      if (cart.items.length === 0) {
+        return res.status(400).json({ message: "Your cart is empty" });
+      }
+
+      const promotion = await applyCouponCode(req.body.code, cart, couponUser?.id ?? null);
+      res.json({
+        userId: couponUser?.id ?? null,
+        ...cart,
+        promotion,
+        couponDiscount: promotion.discount,
+        total: cart.total - promotion.discount
+      });
+    } catch (error) {
+      if (error instanceof PromotionError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error applying coupon:", error);
+      res.status(500).json({ message: "Failed to apply coupon" });
+    }
+  });
+
   // Supplier inventory API
   app.get("/api/inventory", requireRole(["supplier"]), async (req, res) => {
     try {
@@ -559,12 +1543,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.put("/api/inventory/:productId", requireRole(["supplier"]), async (req, res) => {
     try {
       const productId = parseInt(req.params.productId);
-      const { stock } = req.body;
+      const { stock, variantId, type = "adjustment", note } = req.body;
 
-      if (typeof stock !== 'number' || stock < 0) {
+      if (typeof stock !== 'number' || !Number.isInteger(stock) || stock < 0) {
         return res.status(400).json({ message: "Invalid stock value" });
       }
 
+      if (!MANUAL_STOCK_MOVEMENT_TYPES.includes(type)) {
+        return res.status(400).json({ message: `Stock changes can only be recorded as ${MANUAL_STOCK_MOVEMENT_TYPES.join(" or ")}` });
+      }
+
       const product = await dbStorage.getProduct(productId);
 
       // Check if product exists and belongs to the supplier
@@ -581,10 +1569,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "You can only update your own inventory" });
       }
 
-      const inventory = await dbStorage.updateInventory(inventoryUser.id, productId, stock);
+      // Storage records the difference from the current stock as a movement
+      const movement = {
+        type,
+        actorId: inventoryUser.id,
+        actorRole: "supplier",
+        note: typeof note === "string" && note.trim() ? note.trim() : null
+      } as const;
+
+      // Products sold in variants are stocked per variant
+      const variants = await inventoryStorage.getProductVariants(productId);
+      if (variants.length > 0) {
+        const variant = variants.find(candidate => candidate.id === Number(variantId));
+        if (!variant) {
+          return res.status(400).json({ message: "A valid variantId is required for this product" });
+        }
 
-      // Also update the product stock
-      await dbStorage.updateProduct(productId, { stock });
+        // Sets the variant's stock and recalculates the product total
+        const inventory = await inventoryStorage.setVariantStock(productId, variant.id, stock, movement);
+        announceLowStock([productId]);
+        return res.json(inventory);
+      }
+
+      // Sets the product's stock and the supplier's inventory row together
+      const inventory = await inventoryStorage.setStock(productId, stock, movement);
+      announceLowStock([productId]);
 
       res.json(inventory);
     } catch (error) {
@@ -593,6 +1602,136 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Low-stock alerts are opened by storage when a movement takes a product to
+  // or below its reorder threshold, and resolved once stock climbs back above it
+  app.get("/api/inventory/alerts", requireRole(["admin", "supplier"]), async (req, res) => {
+    try {
+      const alertsUser = safeUser(req);
+      if (!alertsUser) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const query = lowStockAlertsQuerySchema.parse(req.query);
+      const alerts = await inventoryStorage.getLowStockAlerts({
+        supplierId: alertsUser.role === "supplier" ? alertsUser.id : query.supplierId,
+        status: query.status
+      });
+
+      res.json(alerts);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return handleZodError(error, res);
+      }
+      console.error("Error fetching low-stock alerts:", error);
+      res.status(500).json({ message: "Failed to fetch low-stock alerts" });
+    }
+  });
+
+  app.get("/api/inventory/:productId/movements", requireRole(["admin", "supplier"]), async (req, res) => {
+    try {
+      const productId = parseInt(req.params.productId);
+      const product = await dbStorage.getProduct(productId);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+
+      const movementsUser = safeUser(req);
+      if (movementsUser?.role === "supplier" && product.supplierId !== movementsUser.id) {
+        return res.status(403).json({ message: "You can only view your own inventory" });
+      }
+
+      const query = stockMovementsQuerySchema.parse(req.query);
+      const movements = await inventoryStorage.getStockMovements(productId, query);
+      res.json(movements);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return handleZodError(error, res);
+      }
+      console.error("Error fetching stock movements:", error);
+      res.status(500).json({ message: "Failed to fetch stock movements" });
+    }
+  });
+
+  app.put("/api/inventory/:productId/threshold", requireRole(["supplier"]), async (req, res) => {
+    try {
+      const productId = parseInt(req.params.productId);
+      const { reorderThreshold } = reorderThresholdSchema.parse(req.body);
+
+      const product = await dbStorage.getProduct(productId);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+
+      const thresholdUser = safeUser(req);
+      if (!thresholdUser) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      if (product.supplierId !== thresholdUser.id) {
+        return res.status(403).json({ message: "You can only update your own inventory" });
+      }
+
+      // Also opens or resolves the product's alert against its current stock
+      const inventory = await inventoryStorage.setReorderThreshold(productId, reorderThreshold);
+
+      res.json({ ...inventory, lowStock: isLowStock(product.stock, reorderThreshold) });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return handleZodError(error, res);
+      }
+      console.error("Error updating reorder threshold:", error);
+      res.status(500).json({ message: "Failed to update reorder threshold" });
+    }
+  });
+
+  // Per-user notification preferences: which channels to use and which
+  // notification types to skip entirely
+  app.get("/api/notifications/preferences", requireRole(["admin", "customer", "supplier"]), async (req, res) => {
+    try {
+      const preferencesUser = safeUser(req);
+      if (!preferencesUser) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const preferences = await notificationStorage.getNotificationPreferences(preferencesUser.id);
+      res.json({ ...DEFAULT_NOTIFICATION_PREFERENCES, ...preferences });
+    } catch (error) {
+      console.error("Error fetching notification preferences:", error);
+      res.status(500).json({ message: "Failed to fetch notification preferences" });
+    }
+  });
+
+  app.put("/api/notifications/preferences", requireRole(["admin", "customer", "supplier"]), async (req, res) => {
+    try {
+      const preferencesUser = safeUser(req);
+      if (!preferencesUser) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const updates = notificationPreferencesSchema.parse(req.body);
+      const preferences = await notificationStorage.setNotificationPreferences(preferencesUser.id, updates);
+      res.json({ ...DEFAULT_NOTIFICATION_PREFERENCES, ...preferences });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return handleZodError(error, res);
+      }
+      console.error("Error updating notification preferences:", error);
+      res.status(500).json({ message: "Failed to update notification preferences" });
+    }
+  });
+
+  // Server-sent event stream of order and inventory updates for the signed-in
+  // user, scoped by canReceiveLiveEvent. The session cookie authenticates it.
+  app.get("/api/events", requireRole(["admin", "customer", "supplier"]), (req, res) => {
+    const eventsUser = safeUser(req);
+    if (!eventsUser) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const unsubscribe = subscribeToLiveEvents(eventsUser, res);
+    req.on("close", unsubscribe);
+  });
+
   // Admin users management
   app.get("/api/admin/customers", requireRole(["admin"]), async (req, res) => {
     try {
@@ -638,6 +1777,88 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Promotions (admin only)
+  app.get("/api/admin/promotions", requireRole(["admin"]), async (req, res) => {
+    try {
+      const promotions = await promotionStorage.getPromotions();
+
+      const promotionsWithUsage = await Promise.all(
+        promotions.map(async (promotion) => {
+          const usage = await promotionStorage.getPromotionUsage(promotion.id, null);
+          return { ...promotion, timesUsed: usage.total };
+        })
+      );
+
+      res.json(promotionsWithUsage);
+    } catch (error) {
+      console.error("Error fetching promotions:", error);
+      res.status(500).json({ message: "Failed to fetch promotions" });
+    }
+  });
+
+  app.post("/api/admin/promotions", requireRole(["admin"]), async (req, res) => {
+    try {
+      const promotionData = promotionInputSchema.parse(req.body);
+
+      if (await promotionStorage.getPromotionByCode(promotionData.code)) {
+        return res.status(409).json({ message: "A promotion with this code already exists" });
+      }
+
+      const promotion = await promotionStorage.createPromotion(promotionData);
+      res.status(201).json(promotion);
+    } catch (error) {
+      handleZodError(error, res);
+    }
+  });
+
+  app.put("/api/admin/promotions/:id", requireRole(["admin"]), async (req, res) => {
+    try {
+      const promotionId = parseInt(req.params.id);
+      const promotion = await promotionStorage.getPromotion(promotionId);
+
+      if (!promotion) {
+        return res.status(404).json({ message: "Promotion not found" });
+      }
+
+      const updates = promotionUpdateSchema.parse(req.body);
+      const promotionData = promotionInputSchema.parse({ ...promotion, ...updates });
+
+      const existing = await promotionStorage.getPromotionByCode(promotionData.code);
+      if (existing && existing.id !== promotionId) {
+        return res.status(409).json({ message: "A promotion with this code already exists" });
+      }
+
+      const updatedPromotion = await promotionStorage.updatePromotion(promotionId, promotionData);
+      res.json(updatedPromotion);
+    } catch (error) {
+      handleZodError(error, res);
+    }
+  });
+
+  // Promotions that were redeemed are deactivated instead, so past orders keep their record
+  app.delete("/api/admin/promotions/:id", requireRole(["admin"]), async (req, res) => {
+    try {
+      const promotionId = parseInt(req.params.id);
+      const promotion = await promotionStorage.getPromotion(promotionId);
+
+      if (!promotion) {
+        return res.status(404).json({ message: "Promotion not found" });
+      }
+
+      const usage = await promotionStorage.getPromotionUsage(promotionId, null);
+      if (usage.total > 0) {
+        await promotionStorage.updatePromotion(promotionId, { isActive: false });
+      } else {
+        await promotionStorage.deletePromotion(promotionId);
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting promotion:", error);
+      res.status(500).json({ message: "Failed to delete promotion" });
+    }
+  });
+
   // Endpoint to clear all orders (admin only)
   app.delete("/api/admin/orders", requireRole(["admin"]), async (req, res) => {
     try {
@@ -712,24 +1933,97 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Paystack Payment Integration
+  // Mark an order paid once the provider has confirmed a successful charge.
+  // Returns an error message when the payment can't be applied to the order.
+  const applySuccessfulPayment = async (payment: VerifiedPayment) => {
+    if (!payment.metadata || !payment.metadata.orderId) {
+      return null;
+    }
+
+    const orderId = parseInt(payment.metadata.orderId);
+    const order = await dbStorage.getOrder(orderId);
+    if (!order) {
+      return null;
+    }
+
+    if (payment.currency !== order.currency || payment.amount < order.totalAmount) {
+      console.error(`Payment ${payment.reference} amount ${payment.amount} does not cover order ${orderId}`);
+      return "Payment amount does not match order total";
+    }
+
+    // The order was initialized with a different payment
+    if (order.paymentReference && order.paymentReference !== payment.reference) {
+      console.error(`Payment ${payment.reference} is not order ${orderId}'s payment ${order.paymentReference}`);
+      return "Payment reference does not match order";
+    }
+
+    if (PAYABLE_PAYMENT_STATUSES.includes(order.paymentStatus)) {
+      // The payment confirmation tells the customer their order is moving, so
+      // the status change that follows doesn't notify them again
+      const fulfillments = await orderStorage.getOrderFulfillments(orderId);
+      const paymentData = { orderId, amount: payment.amount, currency: payment.currency, reference: payment.reference };
+      const paidOrder = await paymentStorage.markOrderPaid(orderId, payment.reference, [
+        { userId: order.customerId, type: "payment_confirmed", data: paymentData },
+        ...fulfillments.map((fulfillment): NotificationInput => ({
+          userId: fulfillment.supplierId,
+          type: "payment_confirmed",
+          data: paymentData
+        }))
+      ]);
+      // Another confirmation of the same payment got there first, or the
+      // order was refunded in the meantime
+      if (!paidOrder) {
+        return null;
+      }
+
+      publishOrderEvent(order, { type: "payment_confirmed", data: paymentData });
+
+      if (checkOrderTransition(order, "processing", "system").allowed) {
+        await changeOrderStatus(order, "processing", { id: null, role: "system" }, `Payment ${payment.reference} confirmed`, false);
+      }
+    }
+
+    return null;
+  };
+
+  // Payment Integration
   app.post("/api/payments/initialize", requireRole(["customer"]), async (req, res) => {
     try {
-      const { amount, email, paymentMethod, orderId, callbackUrl } = req.body;
+      const { email, paymentMethod, orderId, callbackUrl } = req.body;
+      let { amount } = req.body;
+      let currency = STORE_CURRENCY;
 
-      if (!amount || !email || !paymentMethod) {
+      if (!email || !paymentMethod || (!amount && !orderId)) {
         return res.status(400).json({ message: "Missing required payment details" });
       }
 
-      // Format amount to kobo (smallest currency unit in Nigeria - 100 kobo = 1 NGN)
-      // Paystack's default currency is NGN, and we'll use this for payment processing
-      const amountInKobo = Math.floor(amount * 100);
+      // Amounts are integer minor units (pesewas for GHS), never decimals
+      if (!orderId && !isMinorUnitAmount(amount)) {
+        return res.status(400).json({ message: "Amount must be a whole number of minor currency units" });
+      }
+
+      const paymentUser = safeUser(req);
+      if (!paymentUser) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
 
-      // For Paystack processing, we'll use NGN which is widely supported
-      const currency = "NGN";
+      // When paying for an order, charge what the order says rather than what the client sent
+      if (orderId) {
+        const order = await dbStorage.getOrder(Number(orderId));
+        if (!order || order.customerId !== paymentUser.id) {
+          return res.status(404).json({ message: "Order not found" });
+        }
+
+        if (order.paymentStatus === "paid") {
+          return res.status(400).json({ message: "Order has already been paid" });
+        }
+
+        amount = order.totalAmount;
+        currency = order.currency;
+      }
 
       // Create payment reference
-      const reference = `order_${orderId || 'temp'}_${Date.now()}`;
+      const reference = generatePaymentReference(orderId);
 
       // Prepare channels based on selected payment method
       let channels: string[] = [];
@@ -744,77 +2038,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
         case 'telecel':
           channels = ['mobile_money'];
           break;
+        case 'airteltigo':
+          channels = ['mobile_money'];
+          break;
         case 'bank_transfer':
           channels = ['bank_transfer'];
-          break;
-        default:
-          channels = ['card', 'mobile_money', 'bank_transfer']; 
-      }
-
-      // Check if Paystack client is properly initialized
-      if (!paystackClient || !paystackClient.transaction || !paystackClient.transaction.initialize) {
-        console.error("Paystack client not properly initialized or missing 'transaction.initialize' method");
-
-        // For development/testing, continue with mock implementation
-        console.log("Using mock implementation for payment initialization");
-      }
-
-      // For development/testing, just return a success response with dummy values
-      // This allows us to continue testing the flow without actual Paystack integration
-      // Remove this in production
-      const mockPaystackResponse = {
-        success: true,
-        authorizationUrl: `${req.protocol}://${req.get('host')}/payment-success?reference=${reference}`,
-        reference: reference
-      };
-
-      // Return mock response
-      return res.json(mockPaystackResponse);
-
-      /* Uncomment this for actual Paystack integration
-      try {
-        const initResult = await paystackClient.transaction.initialize({
-          amount: amountInKobo, 
-          email,
-          reference,
-          currency,
-          callback_url: callbackUrl || `${req.protocol}://${req.get('host')}/payment-success`,
-          channels,
-          metadata: {
-            orderId,
-            userId: req.user?.id,
-            paymentMethod
-          }
-        });
+          break;
+        default:
+          channels = ['card', 'mobile_money', 'bank_transfer'];
+      }
 
-        if (initResult.body.status) {
-          // Return authorization URL to the client
-          return res.json({
-            success: true,
-            authorizationUrl: initResult.body.data.authorization_url,
-            reference: initResult.body.data.reference
-          });
-        } else {
-          return res.status(400).json({
-            success: false,
-            message: initResult.body.message
-          });
+      const payment = await paymentProvider.initialize({
+        amount,
+        email,
+        reference,
+        currency,
+        callbackUrl: callbackUrl || `${req.protocol}://${req.get('host')}/payment-success`,
+        channels,
+        mobileMoneyProvider: getMobileMoneyProvider(paymentMethod),
+        metadata: {
+          orderId: orderId ? Number(orderId) : null,
+          userId: paymentUser.id,
+          paymentMethod
         }
-      } catch (error) {
-        console.error("Paystack initialization error:", error);
-        return res.status(500).json({
-          success: false,
-          message: "Failed to initialize payment"
-        });
+      });
+
+      if (orderId) {
+        await dbStorage.updateOrder(Number(orderId), { paymentReference: payment.reference });
       }
-      */
+
+      res.json({
+        success: true,
+        authorizationUrl: payment.authorizationUrl,
+        reference: payment.reference
+      });
     } catch (error) {
+      if (error instanceof PaymentProviderError) {
+        console.error("Payment provider initialization error:", error.details || error.message);
+        return res.status(400).json({ success: false, message: error.message });
+      }
+
       console.error("Payment initialization error:", error);
       res.status(500).json({ message: "Failed to initialize payment" });
     }
   });
 
-  // Verify Paystack payment
+  // Verify payment with the provider before touching the order
   app.get("/api/payments/verify/:reference", async (req, res) => {
     try {
       const { reference } = req.params;
@@ -823,83 +2092,142 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Payment reference is required" });
       }
 
-      // Check if reference contains order ID (format: order_X_timestamp)
-      const orderIdMatch = reference.match(/order_(\d+)_/);
-      let orderId = null;
+      const payment = await paymentProvider.verify(reference);
 
-      if (orderIdMatch && orderIdMatch[1]) {
-        orderId = parseInt(orderIdMatch[1]);
+      if (payment.status !== "success") {
+        return res.status(400).json({
+          success: false,
+          message: "Payment verification failed",
+          data: payment
+        });
+      }
 
-        // Update order in database if found
-        const order = await dbStorage.getOrder(orderId);
-        if (order) {
-          await dbStorage.updateOrder(orderId, { 
-            paymentStatus: "paid",
-            status: "processing" 
-          });
-        }
+      // The order comes from the provider's metadata, never from the reference string
+      const paymentError = await applySuccessfulPayment(payment);
+      if (paymentError) {
+        return res.status(400).json({ success: false, message: paymentError });
       }
 
-      // For development/testing, return a success response with mock data
-      return res.json({
+      res.json({
         success: true,
-        data: {
-          status: "success",
-          reference: reference,
-          amount: 10000, // 100.00 in the smallest currency unit
-          metadata: {
-            orderId: orderId,
-            paymentMethod: "mtn_mobile" // or whatever was selected
-          }
-        }
+        data: payment
       });
+    } catch (error) {
+      if (error instanceof PaymentProviderError) {
+        console.error("Payment provider verification error:", error.details || error.message);
+        return res.status(400).json({ success: false, message: error.message });
+      }
 
-      /* Uncomment this for actual Paystack integration
-      // Check if Paystack client is properly initialized
-      if (!paystackClient || !paystackClient.transaction || !paystackClient.transaction.verify) {
-        console.error("Paystack client not properly initialized or missing 'transaction.verify' method");
-        return res.status(500).json({
-          success: false,
-          message: "Payment service unavailable"
+      console.error("Payment verification error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to verify payment"
+      });
+    }
+  });
+
+  // Apply a Paystack webhook event to the order it's about
+  const applyWebhookEvent = async (event: string, data: any, eventId: string) => {
+    switch (event) {
+      case "charge.success": {
+        const paymentError = await applySuccessfulPayment({
+          status: "success",
+          reference: data.reference,
+          amount: data.amount,
+          currency: data.currency,
+          metadata: data.metadata || {}
         });
+        if (paymentError) {
+          console.error(`Webhook ${eventId} not applied: ${paymentError}`);
+        }
+        break;
+      }
+      case "charge.failed": {
+        const order = await paymentStorage.getOrderByPaymentReference(data.reference);
+        if (order && order.paymentStatus === "pending") {
+          await dbStorage.updateOrder(order.id, { paymentStatus: "failed" });
+        }
+        break;
       }
+      case "refund.processed": {
+        const order = await paymentStorage.getOrderByPaymentReference(data.transaction_reference);
+        if (!order) {
+          break;
+        }
 
-      const verifyResult = await paystackClient.transaction.verify({ reference });
+        // Refunds issued through our API already carry their own record;
+        // settling it returns the refunded items to stock
+        const refund = await orderStorage.findProviderRefund(order.id, String(data.id), data.amount);
+        if (refund) {
+          await orderStorage.settleRefund(refund.id, { providerRefundId: String(data.id), status: "processed" });
+        } else {
+          // Issued from the provider's dashboard: no line items to restock
+          const fullyRefunded = data.amount >= order.totalAmount;
+          await dbStorage.updateOrder(order.id, {
+            paymentStatus: fullyRefunded ? "refunded" : "partially_refunded"
+          });
+        }
+        break;
+      }
+      case "refund.failed": {
+        const order = await paymentStorage.getOrderByPaymentReference(data.transaction_reference);
+        const refund = order && await orderStorage.findProviderRefund(order.id, String(data.id), data.amount);
+        // Nothing went back to stock or the order before it was processed
+        if (refund) {
+          await orderStorage.settleRefund(refund.id, { providerRefundId: String(data.id), status: "failed" });
+        }
+        break;
+      }
+      default:
+        // Acknowledge events we don't act on so Paystack stops retrying them
+        break;
+    }
+  };
 
-      if (verifyResult.body.status && verifyResult.body.data.status === "success") {
-        const metadata = verifyResult.body.data.metadata;
+  // Payment provider webhook. Paystack retries until it gets a 2xx, so every
+  // event is claimed by id before it is applied and replays are acknowledged
+  // without side effects.
+  app.post("/api/payments/webhook", async (req, res) => {
+    try {
+      const payload = Buffer.isBuffer(req.rawBody) ? req.rawBody : JSON.stringify(req.body);
+      const signature = req.get("x-paystack-signature");
 
-        // If this is associated with an order, update the order payment status
-        if (metadata && metadata.orderId) {
-          const orderId = parseInt(metadata.orderId);
-          const order = await dbStorage.getOrder(orderId);
+      if (!paymentProvider.verifyWebhookSignature(payload, signature)) {
+        return res.status(401).json({ message: "Invalid webhook signature" });
+      }
 
-          if (order) {
-            await dbStorage.updateOrder(orderId, { 
-              paymentStatus: "paid",
-              status: "processing" 
-            });
-          }
-        }
+      const { event, data } = req.body || {};
+      if (!event || !data || data.id === undefined) {
+        return res.status(400).json({ message: "Invalid webhook payload" });
+      }
 
-        return res.json({
-          success: true,
-          data: verifyResult.body.data
-        });
-      } else {
-        return res.status(400).json({
-          success: false,
-          message: "Payment verification failed",
-          data: verifyResult.body.data
-        });
+      const eventId = `${event}:${data.id}`;
+      const claim = await paymentStorage.claimPaymentEvent({
+        eventId,
+        event,
+        reference: data.reference || data.transaction_reference || null,
+        payload: req.body
+      });
+      if (claim === "processed") {
+        return res.status(200).json({ received: true, duplicate: true });
+      }
+      if (claim === "in_progress") {
+        // Another delivery is applying it right now; let Paystack retry later
+        return res.status(409).json({ message: "Event is already being processed" });
       }
-      */
+
+      try {
+        await applyWebhookEvent(event, data, eventId);
+      } catch (error) {
+        await paymentStorage.releasePaymentEvent(eventId);
+        throw error;
+      }
+
+      await paymentStorage.completePaymentEvent(eventId);
+      res.status(200).json({ received: true });
     } catch (error) {
-      console.error("Payment verification error:", error);
-      res.status(500).json({ 
-        success: false,
-        message: "Failed to verify payment" 
-      });
+      console.error("Payment webhook error:", error);
+      res.status(500).json({ message: "Failed to process webhook" });
     }
   });
 
@@ -911,8 +2239,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const customers = await dbStorage.getUsersByRole("customer");
       const suppliers = await dbStorage.getUsersByRole("supplier");
 
-      // Calculate total sales
-      const totalSales = orders.reduce((sum, order) => sum + order.totalAmount, 0);
+      // Calculate total sales from paid orders only
+      const totalSales = orders
+        .filter(isRevenueOrder)
+        .reduce((sum, order) => sum + order.totalAmount, 0);
 
       // Calculate pending orders
       const pendingOrders = orders.filter(order => order.status === "pending").length;
@@ -938,6 +2268,134 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Supplier earnings statement for a period, plus what is owed overall
+  app.get("/api/supplier/earnings", requireRole(["supplier"]), async (req, res) => {
+    try {
+      const earningsUser = safeUser(req);
+      if (!earningsUser) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const { from, to } = earningsQuerySchema.parse(req.query);
+      const statement = await getSupplierEarnings(earningsUser.id, { from, to });
+      const balanceDue = await getSupplierBalance(earningsUser.id);
+
+      res.json({ ...statement, balanceDue });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return handleZodError(error, res);
+      }
+      console.error("Error fetching supplier earnings:", error);
+      res.status(500).json({ message: "Failed to fetch supplier earnings" });
+    }
+  });
+
+  // Payout report: recorded payouts and each supplier's statement for the period
+  app.get("/api/admin/payouts", requireRole(["admin"]), async (req, res) => {
+    try {
+      const { from, to, supplierId } = earningsQuerySchema.parse(req.query);
+
+      let suppliers = await dbStorage.getUsersByRole("supplier");
+      if (supplierId) {
+        suppliers = suppliers.filter(supplier => supplier.id === supplierId);
+      }
+
+      const statements = await Promise.all(
+        suppliers.map(async (supplier) => {
+          const totals = await earningsStorage.getSupplierEarningsTotals(supplier.id, { from, to });
+          return {
+            supplier: { id: supplier.id, fullName: supplier.fullName },
+            ...summarizeEarnings(totals),
+            balanceDue: await getSupplierBalance(supplier.id)
+          };
+        })
+      );
+
+      const payouts = await earningsStorage.getPayouts({ supplierId, from, to });
+
+      res.json({
+        from: from ?? null,
+        to: to ?? null,
+        commissionPercent: PLATFORM_COMMISSION_PERCENT,
+        statements,
+        payouts
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return handleZodError(error, res);
+      }
+      console.error("Error fetching payouts:", error);
+      res.status(500).json({ message: "Failed to fetch payouts" });
+    }
+  });
+
+  // Record money paid out to a supplier
+  app.post("/api/admin/payouts", requireRole(["admin"]), async (req, res) => {
+    try {
+      const payoutData = payoutInputSchema.parse(req.body);
+
+      const supplier = await dbStorage.getUser(payoutData.supplierId);
+      if (!supplier || supplier.role !== "supplier") {
+        return res.status(404).json({ message: "Supplier not found" });
+      }
+
+      // Storage checks the balance under a lock on the supplier's payouts
+      const payoutUser = safeUser(req);
+      const { payout, balanceDue } = await earningsStorage.createPayout({
+        ...payoutData,
+        createdBy: payoutUser?.id ?? null
+      });
+      if (!payout) {
+        return res.status(400).json({
+          message: "Payout is larger than the balance owed to this supplier",
+          balanceDue
+        });
+      }
+
+      res.status(201).json(payout);
+    } catch (error) {
+      handleZodError(error, res);
+    }
+  });
+
+  // Sales analytics over a date range, bucketed by day, week or month. Every
+  // figure is an aggregate query in storage over paid orders only.
+  app.get("/api/admin/analytics", requireRole(["admin"]), async (req, res) => {
+    try {
+      const query = analyticsQuerySchema.parse(req.query);
+      const range = { from: query.from, to: query.to };
+
+      const [series, totals, topProducts, topCategories, supplierRevenue] = await Promise.all([
+        analyticsStorage.getSalesTimeSeries({ ...range, interval: query.interval }),
+        analyticsStorage.getSalesTotals(range),
+        analyticsStorage.getTopProducts({ ...range, limit: query.limit }),
+        analyticsStorage.getTopCategories({ ...range, limit: query.limit }),
+        analyticsStorage.getSupplierRevenue(range)
+      ]);
+
+      res.json({
+        from: query.from,
+        to: query.to,
+        interval: query.interval,
+        totals: {
+          revenue: totals.revenue,
+          orderCount: totals.orderCount,
+          averageOrderValue: totals.orderCount > 0 ? Math.round(totals.revenue / totals.orderCount) : 0
+        },
+        series,
+        topProducts,
+        topCategories,
+        supplierRevenue
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return handleZodError(error, res);
+      }
+      console.error("Error fetching analytics:", error);
+      res.status(500).json({ message: "Failed to fetch analytics" });
+    }
+  });
+
   // Admin-only: Clear all orders
   app.delete("/api/admin/orders", requireRole(["admin"]), async (req, res) => {
     try {
@@ -956,7 +2414,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Reviews API
+  // Suppliers hear about a review once it is live; storage only queues this
+  // with the review's first publication, so held reviews stay quiet until an
+  // admin approves them
+  const reviewReceivedNotifications = (
+    product: { id: number; name: string; supplierId: number },
+    review: { rating: number; comment?: string | null }
+  ): NotificationInput[] => [{
+    userId: product.supplierId,
+    type: "review_received",
+    data: { productId: product.id, productName: product.name, rating: review.rating, comment: review.comment ?? null }
+  }];
+
+  // Reviews API. Only customers with a delivered order containing the product
+  // can review it, once; they can edit that review afterwards.
   app.post("/api/products/:id/reviews", requireRole(["customer"]), async (req, res) => {
     try {
       const productId = parseInt(req.params.id);
@@ -964,25 +2435,142 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!reviewUser) {
         return res.status(401).json({ message: "Unauthorized" });
       }
+
+      const product = await dbStorage.getProduct(productId);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+
+      const hasPurchased = await reviewStorage.hasDeliveredPurchase(reviewUser.id, productId);
+      if (!hasPurchased) {
+        return res.status(403).json({ message: "You can only review products you have received" });
+      }
+
+      const existingReview = await reviewStorage.getCustomerReview(reviewUser.id, productId);
+      if (existingReview) {
+        return res.status(409).json({
+          message: "You have already reviewed this product",
+          reviewId: existingReview.id
+        });
+      }
       
+      // Suspicious reviews wait for an admin instead of going live
+      const screening = screenReview(req.body.comment);
       const review = insertReviewSchema.parse({
         ...req.body,
         productId,
         customerId: reviewUser.id,
+        verifiedPurchase: true,
+        status: screening.hold ? "pending" : "approved",
+        moderationNote: screening.hold ? `Held automatically: ${screening.reasons.join(", ")}` : null
       });
 
-      const newReview = await dbStorage.createReview(review);
+      const newReview = await reviewStorage.createReview(review, reviewReceivedNotifications(product, review));
+      // Another review of the product by this customer was saved first
+      if (!newReview) {
+        const concurrentReview = await reviewStorage.getCustomerReview(reviewUser.id, productId);
+        return res.status(409).json({
+          message: "You have already reviewed this product",
+          reviewId: concurrentReview?.id
+        });
+      }
+      await reviewStorage.refreshProductRating(productId);
       res.status(201).json(newReview);
     } catch (error) {
       handleZodError(error, res);
     }
   });
+
+  // Edit your own review
+  app.put("/api/reviews/:id", requireRole(["customer"]), async (req, res) => {
+    try {
+      const reviewId = parseInt(req.params.id);
+      const review = await reviewStorage.getReview(reviewId);
+
+      if (!review) {
+        return res.status(404).json({ message: "Review not found" });
+      }
+
+      const reviewUser = safeUser(req);
+      if (review.customerId !== reviewUser?.id) {
+        return res.status(403).json({ message: "You can only edit your own reviews" });
+      }
+
+      // Edits are screened again; a rejected or hidden review stays that way
+      const screening = screenReview(req.body.comment ?? review.comment);
+      let status = review.status;
+      if (review.status === "approved" || review.status === "pending") {
+        status = screening.hold ? "pending" : "approved";
+      }
+
+      // Product, author and verification can't be changed by editing
+      const reviewUpdates = insertReviewSchema.partial().parse({
+        ...req.body,
+        productId: review.productId,
+        customerId: review.customerId,
+        verifiedPurchase: review.verifiedPurchase,
+        status,
+        moderationNote: screening.hold ? `Held automatically: ${screening.reasons.join(", ")}` : review.moderationNote
+      });
+
+      // An edit can publish a review that was held when it was written
+      const product = await dbStorage.getProduct(review.productId);
+      const updatedReview = await reviewStorage.updateReview(
+        reviewId,
+        reviewUpdates,
+        product ? reviewReceivedNotifications(product, { ...review, ...reviewUpdates }) : []
+      );
+      await reviewStorage.refreshProductRating(review.productId);
+      res.json(updatedReview);
+    } catch (error) {
+      handleZodError(error, res);
+    }
+  });
   
+  // Report a review. Enough reports from different customers take it down
+  // until an admin has looked at it.
+  app.post("/api/reviews/:id/report", requireRole(["customer"]), async (req, res) => {
+    try {
+      const reviewId = parseInt(req.params.id);
+      const review = await reviewStorage.getReview(reviewId);
+
+      if (!review || review.status !== "approved") {
+        return res.status(404).json({ message: "Review not found" });
+      }
+
+      const reportUser = safeUser(req);
+      if (!reportUser) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      if (review.customerId === reportUser.id) {
+        return res.status(400).json({ message: "You can't report your own review" });
+      }
+
+      const reason = typeof req.body.reason === "string" ? req.body.reason.slice(0, 500) : null;
+      const { reportCount, created } = await reviewStorage.reportReview(reviewId, reportUser.id, reason);
+
+      if (created && reportCount >= REVIEW_REPORT_THRESHOLD) {
+        await reviewStorage.updateReview(reviewId, {
+          status: "pending",
+          moderationNote: `Held automatically after ${reportCount} reports`
+        });
+        await reviewStorage.refreshProductRating(review.productId);
+      }
+
+      res.status(created ? 201 : 200).json({ message: "Thanks, we'll take a look at this review" });
+    } catch (error) {
+      console.error("Error reporting review:", error);
+      res.status(500).json({ message: "Failed to report review" });
+    }
+  });
+
   // Get reviews for a product
   app.get("/api/products/:id/reviews", async (req, res) => {
     try {
       const productId = parseInt(req.params.id);
-      const reviews = await dbStorage.getReviews(productId);
+      // Only approved reviews are public; rating aggregates count only these too
+      const reviews = await reviewStorage.getReviews(productId, { status: "approved" });
       res.json(reviews);
     } catch (error) {
       console.error("Error fetching reviews:", error);
@@ -994,7 +2582,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/reviews/top", async (req, res) => {
     try {
       const limit = req.query.limit ? parseInt(req.query.limit as string) : 5;
-      const reviews = await dbStorage.getTopReviews(limit);
+      const reviews = await reviewStorage.getTopReviews(limit, { status: "approved" });
       
       // Get product details for each review
       const reviewsWithProducts = await Promise.all(
@@ -1027,10 +2615,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Admin review endpoints
+  // Admin review endpoints. The moderation queue can be filtered by status
+  // and by how many times a review was reported.
   app.get("/api/admin/reviews", requireRole(["admin"]), async (req, res) => {
     try {
-      const reviews = await dbStorage.getReviews();
+      const { status, minReports } = req.query;
+      if (status !== undefined && !isReviewStatus(status)) {
+        return res.status(400).json({ message: "Invalid review status" });
+      }
+
+      const reviews = await reviewStorage.getReviews(undefined, {
+        status,
+        minReports: minReports ? Number(minReports) : undefined,
+        withReportCount: true
+      });
       
       // Get product details for each review
       const reviewsWithDetails = await Promise.all(
@@ -1063,6 +2661,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Moderate a review
+  app.patch("/api/admin/reviews/:id", requireRole(["admin"]), async (req, res) => {
+    try {
+      const reviewId = parseInt(req.params.id);
+      if (isNaN(reviewId)) {
+        return res.status(400).json({ message: "Invalid review ID" });
+      }
+
+      if (!isReviewStatus(req.body.status)) {
+        return res.status(400).json({ message: "Invalid review status" });
+      }
+
+      const review = await reviewStorage.getReview(reviewId);
+      if (!review) {
+        return res.status(404).json({ message: "Review not found" });
+      }
+
+      // Approving a held review publishes it, which tells the supplier
+      const moderator = safeUser(req);
+      const product = await dbStorage.getProduct(review.productId);
+      const updatedReview = await reviewStorage.updateReview(reviewId, {
+        status: req.body.status,
+        moderationNote: req.body.note ?? review.moderationNote,
+        moderatedBy: moderator?.id ?? null,
+        moderatedAt: new Date()
+      }, product ? reviewReceivedNotifications(product, review) : []);
+
+      // Approving clears the reports so the review leaves the reported queue
+      if (req.body.status === "approved") {
+        await reviewStorage.clearReviewReports(reviewId);
+      }
+
+      await reviewStorage.refreshProductRating(review.productId);
+      res.json(updatedReview);
+    } catch (error) {
+      console.error("Error moderating review:", error);
+      res.status(500).json({ message: "Failed to moderate review" });
+    }
+  });
+
   // Delete a review (admin only)
   app.delete("/api/admin/reviews/:id", requireRole(["admin"]), async (req, res) => {
     try {
@@ -1071,10 +2709,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid review ID" });
       }
 
-      const deleted = await dbStorage.deleteReview(reviewId);
-      if (!deleted) {
+      const review = await reviewStorage.getReview(reviewId);
+      if (!review) {
         return res.status(404).json({ message: "Review not found" });
       }
+
+      await dbStorage.deleteReview(reviewId);
+      await reviewStorage.refreshProductRating(review.productId);
       
       res.status(200).json({ message: "Review deleted successfully" });
     } catch (error) {
@@ -1089,25 +2730,179 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!req.file) {
         return res.status(400).json({ message: "No file uploaded" });
       }
-      
-      // Create URL for uploaded image
-      // Use relative URL path to avoid hardcoded domain issues
-      const imageUrl = `/uploads/products/${req.file.filename}`;
-      
+
+      const uploadUser = safeUser(req);
+      if (!uploadUser) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      // Suppliers share a fixed amount of media storage each. A supplier who
+      // is already full is turned away before the image is processed.
+      const quotaBytes = uploadUser.role === "supplier" ? MEDIA_QUOTA_BYTES : null;
+      const quotaExceeded = (usedBytes: number) => res.status(413).json({
+        message: "Media storage quota exceeded. Delete unused images and try again.",
+        usedBytes,
+        quotaBytes: MEDIA_QUOTA_BYTES
+      });
+      if (quotaBytes !== null) {
+        const usedBytes = await mediaAssetStorage.getMediaUsage(uploadUser.id);
+        if (usedBytes >= quotaBytes) {
+          return quotaExceeded(usedBytes);
+        }
+      }
+
+      const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
+      const baseName = 'product-' + uniqueSuffix;
+      const renditions = await processProductImage(req.file.buffer, `products/${baseName}`, mediaStorage);
+
+      // Local storage gives relative URL paths to avoid hardcoded domain issues
+      const toUrl = (key: string) => mediaStorage.getPublicUrl(key);
+      const urls = Object.fromEntries(
+        Object.entries(renditions).map(([name, rendition]) => [name, {
+          width: rendition.width,
+          height: rendition.height,
+          webp: toUrl(rendition.files.webp),
+          avif: toUrl(rendition.files.avif)
+        }])
+      );
+
+      const renditionList = Object.values(renditions);
+      const keys = renditionList.flatMap(rendition => Object.values(rendition.files));
+      const removeRenditions = async () => {
+        for (const key of keys) {
+          await mediaStorage.delete(key);
+        }
+      };
+
+      // The quota counts the bytes the stored renditions take up, not the
+      // upload's size. Renditions that would go over it are removed again.
+      let asset;
+      try {
+        asset = await mediaAssetStorage.createMediaAsset({
+          ownerId: uploadUser.id,
+          keys,
+          urls: keys.map(toUrl),
+          sizeBytes: renditionList.reduce((sum, rendition) => sum + rendition.bytes, 0),
+          renditions: urls
+        }, quotaBytes);
+      } catch (error) {
+        await removeRenditions();
+        throw error;
+      }
+
+      if (!asset) {
+        await removeRenditions();
+        return quotaExceeded(await mediaAssetStorage.getMediaUsage(uploadUser.id));
+      }
+
       res.status(201).json({ 
-        url: imageUrl,
-        filename: req.file.filename,
+        id: asset.id,
+        url: toUrl(renditions.large.files.webp),
+        filename: baseName,
+        renditions: urls,
         message: "Image uploaded successfully" 
       });
     } catch (error) {
+      if (error instanceof ImageProcessingError) {
+        return res.status(400).json({ message: error.message });
+      }
+
       console.error("Error uploading image:", error);
       res.status(500).json({ message: "Failed to upload image" });
     }
   });
   
-  // Serve uploaded files statically
-  app.use('/uploads', express.static(path.join(process.cwd(), 'uploads')));
+  // Media library. Suppliers see and manage their own uploads; admins see
+  // everyone's and can filter by ownerId.
+  app.get("/api/media", requireRole(["admin", "supplier"]), async (req, res) => {
+    try {
+      const mediaUser = safeUser(req);
+      if (!mediaUser) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const ownerId = mediaUser.role === "supplier"
+        ? mediaUser.id
+        : req.query.ownerId ? Number(req.query.ownerId) : undefined;
+
+      // Each asset lists the products using it, so suppliers know what's safe
+      // to delete
+      const assets = await mediaAssetStorage.getMediaAssets({ ownerId });
+
+      if (ownerId === undefined) {
+        return res.json({ items: assets });
+      }
+
+      res.json({
+        items: assets,
+        usedBytes: await mediaAssetStorage.getMediaUsage(ownerId),
+        quotaBytes: MEDIA_QUOTA_BYTES
+      });
+    } catch (error) {
+      console.error("Error fetching media:", error);
+      res.status(500).json({ message: "Failed to fetch media" });
+    }
+  });
+
+  app.delete("/api/media/:id", requireRole(["admin", "supplier"]), async (req, res) => {
+    try {
+      const assetId = parseInt(req.params.id);
+      const asset = await mediaAssetStorage.getMediaAsset(assetId);
+
+      if (!asset) {
+        return res.status(404).json({ message: "Media not found" });
+      }
+
+      const mediaUser = safeUser(req);
+      if (mediaUser?.role === "supplier" && asset.ownerId !== mediaUser.id) {
+        return res.status(403).json({ message: "You can only delete your own media" });
+      }
+
+      // Deleting an image a product still shows would leave a broken picture
+      const deleted = await mediaAssetStorage.deleteUnusedMediaAsset(assetId);
+      if (!deleted) {
+        const current = await mediaAssetStorage.getMediaAsset(assetId);
+        return res.status(409).json({ message: "Media is still used by products", productIds: current?.productIds ?? [] });
+      }
+
+      for (const key of deleted.keys) {
+        await mediaStorage.delete(key);
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting media:", error);
+      res.status(500).json({ message: "Failed to delete media" });
+    }
+  });
+
+  // Serve uploaded files statically when they're kept on local disk
+  if (mediaStorage instanceof LocalMediaStorage) {
+    app.use('/uploads', express.static(LOCAL_UPLOAD_ROOT));
+  }
 
   const httpServer = createServer(app);
+
+  // Launch coming soon products at their release date
+  startLaunchScheduler();
+  httpServer.on("close", stopLaunchScheduler);
+
+  // Remove uploads no product ended up using
+  startMediaCleanup(mediaStorage);
+  httpServer.on("close", stopMediaCleanup);
+
+  // Keep open event streams alive with a heartbeat
+  startLiveEvents();
+  // Open event streams keep close() from ever finishing, so end them first
+  const closeServer = httpServer.close.bind(httpServer);
+  httpServer.close = callback => {
+    stopLiveEvents();
+    return closeServer(callback);
+  };
+
+  // Deliver queued notifications by email and SMS
+  startNotificationWorker(createNotificationTransports());
+  httpServer.on("close", stopNotificationWorker);
+
   return httpServer;
 }
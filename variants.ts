@@ -0,0 +1,56 @@
+import { z } from "zod";
+
+// One sellable size × color combination of a product. price overrides the
+// product price when set (integer minor units); stock is tracked per variant.
+export const productVariantInputSchema = z.object({
+  size: z.string().min(1),
+  color: z.string().min(1),
+  sku: z.string().trim().min(1).max(64),
+  price: z.number().int().min(0).nullable().optional(),
+  stock: z.number().int().min(0)
+});
+
+export const productVariantsInputSchema = z.array(productVariantInputSchema).max(200);
+
+export type ProductVariantInput = z.infer<typeof productVariantInputSchema>;
+
+// Check variants against the sizes and colors the product is offered in
+export function findVariantIssues(
+  product: { availableSizes?: string[] | null; availableColors?: string[] | null },
+  variants: ProductVariantInput[]
+): string[] {
+  const issues: string[] = [];
+  const seenSkus = new Set<string>();
+  const seenCombinations = new Set<string>();
+
+  for (const variant of variants) {
+    if (!(product.availableSizes || []).includes(variant.size)) {
+      issues.push(`Size ${variant.size} is not offered for this product`);
+    }
+
+    if (!(product.availableColors || []).includes(variant.color)) {
+      issues.push(`Color ${variant.color} is not offered for this product`);
+    }
+
+    const combination = `${variant.size}/${variant.color}`;
+    if (seenCombinations.has(combination)) {
+      issues.push(`Variant ${combination} is listed more than once`);
+    }
+    seenCombinations.add(combination);
+
+    if (seenSkus.has(variant.sku)) {
+      issues.push(`SKU ${variant.sku} is used by more than one variant`);
+    }
+    seenSkus.add(variant.sku);
+  }
+
+  return issues;
+}
+
+export function findVariant<T extends { size: string; color: string }>(
+  variants: T[],
+  size?: string,
+  color?: string
+): T | undefined {
+  return variants.find(variant => variant.size === size && variant.color === color);
+}